@@ -1,17 +1,29 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withAdminAuth } from "@/lib/adminAuth";
 
 interface AirdropRow {
   EVM: string;
   Amount: string | number;
 }
 
-export async function GET() {
+async function handleGet(req: NextRequest) {
   try {
+    const slug = new URL(req.url).searchParams.get("collection");
+    const collection = await findCollection(slug);
+    if (!collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(slug) },
+        { status: 404 }
+      );
+    }
+
     // Query the EVMAirdrop table using raw SQL
     const rows = await prisma.$queryRaw<AirdropRow[]>`
       SELECT "EVM", "Amount" 
       FROM "EVMAirdrop"
+      WHERE "collectionId" = ${collection.id}
       ORDER BY "EVM"
     `;
 
@@ -29,7 +41,7 @@ export async function GET() {
       status: 200,
       headers: {
         'Content-Type': 'text/plain',
-        'Content-Disposition': 'attachment; filename="airdrop.txt"',
+        'Content-Disposition': `attachment; filename="airdrop-${collection.slug}.txt"`,
       },
     });
 
@@ -52,3 +64,4 @@ export async function GET() {
   }
 }
 
+export const GET = withAdminAuth("operator", handleGet);
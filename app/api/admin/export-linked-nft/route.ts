@@ -1,13 +1,25 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withAdminAuth } from "@/lib/adminAuth";
 
-export async function GET() {
+async function handleGet(req: NextRequest) {
   try {
+    const slug = new URL(req.url).searchParams.get("collection");
+    const collection = await findCollection(slug);
+    if (!collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(slug) },
+        { status: 404 }
+      );
+    }
+
     // Query LinkedNFT table for entries after 2025-12-09
     const cutoffDate = new Date("2025-12-09T00:00:00.000Z");
     
     const rows = await prisma.linkedNFT.findMany({
       where: {
+        collectionId: collection.id,
         linkedAt: {
           gt: cutoffDate,
         },
@@ -35,7 +47,7 @@ export async function GET() {
       status: 200,
       headers: {
         'Content-Type': 'text/plain',
-        'Content-Disposition': 'attachment; filename="linked-nft-export.txt"',
+        'Content-Disposition': `attachment; filename="linked-nft-export-${collection.slug}.txt"`,
       },
     });
 
@@ -48,3 +60,5 @@ export async function GET() {
     );
   }
 }
+
+export const GET = withAdminAuth("operator", handleGet);
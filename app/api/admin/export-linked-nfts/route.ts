@@ -1,18 +1,30 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withAdminAuth } from "@/lib/adminAuth";
 
 interface LinkedNFTRow {
   evmAddress: string;
   tokenId: string;
 }
 
-export async function GET() {
+async function handleGet(req: NextRequest) {
   try {
+    const slug = new URL(req.url).searchParams.get("collection");
+    const collection = await findCollection(slug);
+    if (!collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(slug) },
+        { status: 404 }
+      );
+    }
+
     // Query LinkedNFT table for entries after 2025-11-26
     const cutoffDate = new Date("2025-11-26T00:00:00.000Z");
     
     const rows = await prisma.linkedNFT.findMany({
       where: {
+        collectionId: collection.id,
         linkedAt: {
           gt: cutoffDate, // Greater than 2025-11-26
         },
@@ -40,7 +52,7 @@ export async function GET() {
       status: 200,
       headers: {
         "Content-Type": "text/plain",
-        "Content-Disposition": 'attachment; filename="linked-nfts.txt"',
+        "Content-Disposition": `attachment; filename="linked-nfts-${collection.slug}.txt"`,
       },
     });
   } catch (error) {
@@ -71,3 +83,4 @@ export async function GET() {
   }
 }
 
+export const GET = withAdminAuth("operator", handleGet);
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { describeAdmin, withAdminAuth, type AdminIdentity } from "@/lib/adminAuth";
+import { ADMIN_ROLES, generateAdminApiKey, isAdminRole } from "@/lib/adminRoles";
+
+/**
+ * Admin API key management (owner)
+ * - GET: lists keys (never the key itself - only its prefix)
+ * - POST { name, role }: creates a key; the response is the only time it's shown
+ * - DELETE ?id=: revokes a key
+ */
+
+const KEY_LISTING_SELECT = {
+  id: true,
+  name: true,
+  role: true,
+  keyPrefix: true,
+  createdBy: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+} as const;
+
+async function handleGet() {
+  try {
+    const keys = await prisma.adminApiKey.findMany({
+      select: KEY_LISTING_SELECT,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: keys,
+    });
+  } catch (error) {
+    console.error("Error listing admin API keys:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(req: NextRequest, admin: AdminIdentity) {
+  try {
+    const { name, role } = await req.json();
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "name is required" },
+        { status: 400 }
+      );
+    }
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${ADMIN_ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { key, keyHash, keyPrefix } = generateAdminApiKey();
+    const apiKey = await prisma.adminApiKey.create({
+      data: {
+        name: name.trim(),
+        role,
+        keyHash,
+        keyPrefix,
+        createdBy: describeAdmin(admin),
+      },
+      select: KEY_LISTING_SELECT,
+    });
+
+    console.log(`🔑 Admin API key ${apiKey.id} (${apiKey.name}, ${role}) created by ${describeAdmin(admin)}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...apiKey, key },
+    });
+  } catch (error) {
+    console.error("Error creating admin API key:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleDelete(req: NextRequest, admin: AdminIdentity) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "id parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.adminApiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "API key not found or already revoked" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`🗑️ Admin API key ${id} revoked by ${describeAdmin(admin)}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking admin API key:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withAdminAuth("owner", handleGet);
+export const POST = withAdminAuth("owner", handlePost);
+export const DELETE = withAdminAuth("owner", handleDelete);
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { findCollection, listCollections, unknownCollectionMessage } from "@/lib/collections";
+import { withAdminAuth } from "@/lib/adminAuth";
+
+// Upper bound on events returned for a single lookup
+const MAX_EVENTS = 500;
+
+/**
+ * GET /api/admin/link-history?tokenId=564[&collection=<slug>] (viewer)
+ * GET /api/admin/link-history?evmAddress=0x...[&collection=<slug>] (viewer)
+ * Returns the link timeline (oldest first) for a token or an EVM address,
+ * including links the address has since lost through relink/unlink.
+ * Beyond MAX_EVENTS only the newest events are returned, with `truncated` set.
+ * Token lookups use the default collection unless one is given; address
+ * lookups cover every collection unless one is given.
+ * IP hashes are not exposed here.
+ */
+async function handleGet(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const tokenId = searchParams.get("tokenId");
+    const evmAddress = searchParams.get("evmAddress");
+    const collectionSlug = searchParams.get("collection");
+
+    if (!tokenId && !evmAddress) {
+      return NextResponse.json(
+        { error: "tokenId or evmAddress is required" },
+        { status: 400 }
+      );
+    }
+
+    const collection = tokenId || collectionSlug ? await findCollection(collectionSlug) : null;
+    if ((tokenId || collectionSlug) && !collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
+
+    const where = tokenId
+      ? { collectionId: collection!.id, tokenId: tokenId.trim() }
+      : {
+          ...(collection ? { collectionId: collection.id } : {}),
+          OR: [
+            { evmAddress: evmAddress!.toLowerCase() },
+            { previousEvmAddress: evmAddress!.toLowerCase() },
+          ],
+        };
+
+    // Newest first so a long history keeps the current state, then back to oldest first
+    const [newestEvents, collections] = await Promise.all([prisma.linkEvent.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: MAX_EVENTS + 1,
+      select: {
+        id: true,
+        type: true,
+        collectionId: true,
+        tokenId: true,
+        mintAddress: true,
+        actor: true,
+        solanaAddress: true,
+        evmAddress: true,
+        previousSolanaAddress: true,
+        previousEvmAddress: true,
+        signatureMethod: true,
+        evmSignatureMethod: true,
+        requestId: true,
+        createdAt: true,
+      },
+    }), listCollections()]);
+
+    const truncated = newestEvents.length > MAX_EVENTS;
+    const events = newestEvents.slice(0, MAX_EVENTS).reverse();
+    const collectionSlugs = new Map(collections.map(c => [c.id, c.slug]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        collection: collection?.slug ?? null,
+        tokenId: tokenId ?? null,
+        evmAddress: evmAddress ? evmAddress.toLowerCase() : null,
+        totalEvents: events.length,
+        truncated,
+        events: events.map(({ collectionId, ...event }) => ({
+          ...event,
+          collection: collectionSlugs.get(collectionId) ?? null,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching link history:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withAdminAuth("viewer", handleGet);
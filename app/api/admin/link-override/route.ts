@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { describeAdmin, withAdminAuth, type AdminIdentity } from "@/lib/adminAuth";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { getRequestContext, LinkEventType, recordLinkEvents } from "@/lib/linkEvents";
+import { invalidateOwnedNFTs } from "@/lib/nftOwnership";
+import { isEvmAddress } from "@/lib/signatures/siwe";
+
+/**
+ * POST /api/admin/link-override (operator)
+ * Body: { tokenId, evmAddress, collection? }
+ *
+ * Corrects a link for a support case: points a linked token at `evmAddress`,
+ * or releases it when `evmAddress` is null. The Solana holder stays the same -
+ * only the holder can link a token in the first place. Recorded as an
+ * "admin_override" LinkEvent with the admin as the actor.
+ */
+async function handlePost(req: NextRequest, admin: AdminIdentity) {
+  try {
+    const requestContext = getRequestContext(req);
+    const { tokenId, evmAddress, collection: collectionSlug } = await req.json();
+
+    if (typeof tokenId !== "string" || !tokenId.trim()) {
+      return NextResponse.json(
+        { error: "tokenId is required" },
+        { status: 400 }
+      );
+    }
+    if (evmAddress !== null && !(typeof evmAddress === "string" && isEvmAddress(evmAddress))) {
+      return NextResponse.json(
+        { error: "evmAddress must be an EVM address, or null to release the token" },
+        { status: 400 }
+      );
+    }
+
+    const collection = await findCollection(collectionSlug);
+    if (!collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
+
+    const link = await prisma.linkedNFT.findUnique({
+      where: { collectionId_tokenId: { collectionId: collection.id, tokenId: tokenId.trim() } },
+    });
+    if (!link) {
+      return NextResponse.json(
+        { error: `Token ID ${tokenId.trim()} is not linked` },
+        { status: 404 }
+      );
+    }
+
+    const newEvmAddress: string | null = evmAddress === null ? null : evmAddress.toLowerCase();
+    if (newEvmAddress === link.evmAddress) {
+      return NextResponse.json(
+        { error: `Token ID ${link.tokenId} is already linked to this EVM address` },
+        { status: 400 }
+      );
+    }
+
+    // Guarded on the link we just read, so a concurrent change rolls the override back
+    try {
+      await prisma.$transaction(async (tx) => {
+        if (newEvmAddress) {
+          const walletLink = await tx.walletLink.upsert({
+            where: {
+              solanaAddress_evmAddress: {
+                solanaAddress: link.solanaAddress,
+                evmAddress: newEvmAddress,
+              },
+            },
+            update: {},
+            create: {
+              solanaAddress: link.solanaAddress,
+              evmAddress: newEvmAddress,
+              solanaSignature: "",
+              evmSignature: "",
+            },
+          });
+
+          await tx.linkedNFT.update({
+            where: { id: link.id, evmAddress: link.evmAddress, solanaAddress: link.solanaAddress },
+            data: {
+              evmAddress: newEvmAddress,
+              walletLinkId: walletLink.id,
+              linkedAt: new Date(),
+            },
+          });
+        } else {
+          await tx.linkedNFT.delete({
+            where: { id: link.id, evmAddress: link.evmAddress, solanaAddress: link.solanaAddress },
+          });
+        }
+
+        await recordLinkEvents(tx, requestContext, [{
+          type: LinkEventType.ADMIN_OVERRIDE,
+          collectionId: collection.id,
+          tokenId: link.tokenId,
+          mintAddress: link.mintAddress,
+          actor: describeAdmin(admin),
+          solanaAddress: newEvmAddress ? link.solanaAddress : null,
+          evmAddress: newEvmAddress,
+          previousSolanaAddress: link.solanaAddress,
+          previousEvmAddress: link.evmAddress,
+        }]);
+      });
+    } catch (error) {
+      // P2025: the link changed since we read it; P2002: the mint is already linked to the new EVM address
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === "P2025" || error.code === "P2002")
+      ) {
+        return NextResponse.json(
+          { error: "Link was modified by another request, please try again" },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await invalidateOwnedNFTs(collection, [link.solanaAddress]);
+
+    console.log(
+      `🛠️ Admin override by ${describeAdmin(admin)}: ${collection.slug} Token ID ${link.tokenId} ${link.evmAddress} → ${newEvmAddress ?? "unlinked"}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      requestId: requestContext.requestId,
+      data: {
+        collection: collection.slug,
+        tokenId: link.tokenId,
+        solanaAddress: link.solanaAddress,
+        evmAddress: newEvmAddress,
+        previousEvmAddress: link.evmAddress,
+      },
+    });
+  } catch (error) {
+    console.error("Error in admin link override:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAdminAuth("operator", handlePost);
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAdminAuth, type AdminIdentity } from "@/lib/adminAuth";
+
+/**
+ * GET /api/admin/me (viewer)
+ * Returns the identity and role behind the request's admin credential
+ */
+async function handleGet(_req: NextRequest, admin: AdminIdentity) {
+  return NextResponse.json({
+    success: true,
+    data: admin,
+  });
+}
+
+export const GET = withAdminAuth("viewer", handleGet);
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  AdminAuthError,
+  NonceError,
+  SignatureVerificationError,
+  SignInMessageError,
+} from "@/lib/errors";
+import { verifyAdminWalletSignIn } from "@/lib/adminAuth";
+import { createAdminSessionToken } from "@/lib/session";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/admin/session
+ * Signs an admin wallet in. Request a message from /api/nonce for the wallet,
+ * sign it, and send { address, message, signature }. Returns a session token
+ * to use as `Authorization: Bearer <token>` on the other admin routes.
+ */
+async function handlePost(req: NextRequest) {
+  try {
+    const { address, message, signature } = await req.json();
+
+    if (
+      typeof address !== "string" ||
+      typeof message !== "string" ||
+      typeof signature !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "address, message and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    let adminAddress: string;
+    try {
+      adminAddress = await verifyAdminWalletSignIn({
+        address,
+        message,
+        signature,
+        requestUrl: req.url,
+      });
+    } catch (error) {
+      if (
+        error instanceof SignInMessageError ||
+        error instanceof NonceError ||
+        error instanceof SignatureVerificationError
+      ) {
+        console.error("Admin sign-in rejected:", error.message);
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error instanceof AdminAuthError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      throw error;
+    }
+
+    const wallet = await prisma.adminWallet.findUniqueOrThrow({ where: { address: adminAddress } });
+    const session = createAdminSessionToken(adminAddress);
+
+    console.log(`🔐 Admin session issued for ${wallet.name} (${adminAddress}, ${wallet.role})`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        token: session.token,
+        expiresAt: session.expiresAt.toISOString(),
+        address: adminAddress,
+        name: wallet.name,
+        role: wallet.role,
+      },
+    });
+  } catch (error) {
+    console.error("Error in admin session:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit("admin-session", handlePost);
@@ -1,23 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withAdminAuth } from "@/lib/adminAuth";
 
 /**
- * GET /api/wallet-summary
+ * GET /api/admin/wallet-summary (viewer)
  * Returns a summary of all wallet links with token counts
  * 
  * Query parameters:
  * - evmAddress: Filter by EVM address
  * - solanaAddress: Filter by Solana address
+ * - collection: Only count NFTs of this collection (slug)
  * - limit: Limit number of results (default: 100)
  * - offset: Offset for pagination (default: 0)
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const evmAddress = searchParams.get("evmAddress");
     const solanaAddress = searchParams.get("solanaAddress");
     const limit = parseInt(searchParams.get("limit") || "100");
     const offset = parseInt(searchParams.get("offset") || "0");
+    const collectionSlug = searchParams.get("collection");
+
+    const collection = collectionSlug ? await findCollection(collectionSlug) : null;
+    if (collectionSlug && !collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
 
     // Build where clause
     const where: { evmAddress?: string; solanaAddress?: string } = {};
@@ -34,7 +46,7 @@ export async function GET(req: NextRequest) {
       include: {
         _count: {
           select: {
-            linkedNFTs: true,
+            linkedNFTs: collection ? { where: { collectionId: collection.id } } : true,
           },
         },
       },
@@ -76,3 +88,4 @@ export async function GET(req: NextRequest) {
   }
 }
 
+export const GET = withAdminAuth("viewer", handleGet);
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { getCampaignStatus } from "@/lib/campaign";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * GET /api/campaign?collection=<slug>
+ * Returns the linking window of a collection (the default one without a slug):
+ * "upcoming", "open", "grace" (linking only, no new verifications) or "closed".
+ * verify-solana and link-evm enforce the same state server-side.
+ */
+async function handleGet(req: NextRequest) {
+  try {
+    const slug = new URL(req.url).searchParams.get("collection");
+    const collection = await findCollection(slug);
+
+    if (!collection) {
+      return NextResponse.json(
+        { success: false, error: unknownCollectionMessage(slug) },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: getCampaignStatus(collection),
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error fetching campaign status:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit("campaign", handleGet);
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getWassieverseNFTs } from "@/lib/solana";
-import { getCache, setCache } from "@/lib/redis";
+import { getOwnedNFTs } from "@/lib/nftOwnership";
+import { UnknownMintError } from "@/lib/errors";
+import { isSolanaAddress } from "@/lib/signatures/siws";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withRateLimit } from "@/lib/rateLimit";
 
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
-    const { solAddress } = await req.json();
+    const { solAddress, collection: collectionSlug } = await req.json();
 
     if (!solAddress) {
       return NextResponse.json(
@@ -13,27 +16,33 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Query Solana blockchain for Wassieverse NFTs (with Redis caching)
+    if (!isSolanaAddress(solAddress)) {
+      return NextResponse.json(
+        { error: "Invalid solAddress" },
+        { status: 400 }
+      );
+    }
+
+    const collection = await findCollection(collectionSlug);
+    if (!collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
+
+    // Query Solana blockchain for the collection's NFTs (cached by lib/nftOwnership)
     let nfts: { mintAddress: string; tokenId: string }[] = [];
     try {
-      // Check Redis cache first (cache for 5 minutes = 300 seconds)
-      const cacheKey = `nfts:${solAddress}`;
-      const cachedNFTs = await getCache(cacheKey);
-      
-      if (cachedNFTs) {
-        console.log(`✅ Using cached NFTs for ${solAddress}`);
-        nfts = JSON.parse(cachedNFTs);
-      } else {
-        console.log(`🔍 Fetching NFTs from blockchain for ${solAddress}`);
-        nfts = await getWassieverseNFTs(solAddress);
-        
-        // Cache the result for 5 minutes
-        if (nfts.length > 0) {
-          await setCache(cacheKey, JSON.stringify(nfts), 300);
-        }
-      }
+      nfts = await getOwnedNFTs(solAddress, collection);
     } catch (error) {
       console.error("Error fetching NFTs:", error);
+      if (error instanceof UnknownMintError) {
+        return NextResponse.json(
+          { error: error.message, unknownMints: error.mints },
+          { status: 403 }
+        );
+      }
       return NextResponse.json(
         { error: "Failed to fetch NFTs from blockchain" },
         { status: 500 }
@@ -45,9 +54,10 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      collection: collection.slug,
       tokenIds,
       nfts, // Include full NFT data
-      message: `Found ${nfts.length} Wassieverse NFT(s)`,
+      message: `Found ${nfts.length} ${collection.name} NFT(s)`,
     });
   } catch (error) {
     console.error("Error in check-nfts:", error);
@@ -58,3 +68,4 @@ export async function POST(req: NextRequest) {
   }
 }
 
+export const POST = withRateLimit("check-nfts", handlePost);
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_COLLECTION_SLUG, listCollections, toCollectionInfo } from "@/lib/collections";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * GET /api/collections
+ * Returns the public config of every collection (name, token-ID range,
+ * image base, linking window) and the slug used when none is given
+ */
+async function handleGet() {
+  try {
+    const collections = await listCollections();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        defaultCollection: DEFAULT_COLLECTION_SLUG,
+        collections: collections.map(toCollectionInfo),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching collections:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit("collections", handleGet);
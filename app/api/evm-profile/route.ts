@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withRateLimit } from "@/lib/rateLimit";
 
 /**
- * GET /api/evm-profile?evmAddress=0x...
+ * GET /api/evm-profile?evmAddress=0x...[&collection=<slug>]
  * Returns all NFTs linked to an EVM address from all Solana wallets
+ * (from every collection unless one is given)
  * This is the "profile" view showing aggregated data
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const evmAddress = searchParams.get("evmAddress");
+    const collectionSlug = searchParams.get("collection");
 
     if (!evmAddress) {
       return NextResponse.json(
@@ -18,13 +22,26 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    const collection = collectionSlug ? await findCollection(collectionSlug) : null;
+    if (collectionSlug && !collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
+
     // Get all wallet links for this EVM address
     const walletLinks = await prisma.walletLink.findMany({
       where: {
         evmAddress: evmAddress.toLowerCase(),
       },
       include: {
-        linkedNFTs: true,
+        linkedNFTs: {
+          where: collection ? { collectionId: collection.id } : undefined,
+          include: {
+            collection: { select: { slug: true, name: true, imageBaseUrl: true } },
+          },
+        },
       },
       orderBy: {
         verifiedAt: "desc",
@@ -53,6 +70,7 @@ export async function GET(req: NextRequest) {
       success: true,
       data: {
         evmAddress: evmAddress.toLowerCase(),
+        collection: collection?.slug ?? null,
         totalNFTs: allNFTs.length,
         solanaWallets,
         nfts: allNFTs,
@@ -78,3 +96,4 @@ export async function GET(req: NextRequest) {
   }
 }
 
+export const GET = withRateLimit("evm-profile", handleGet);
@@ -1,6 +1,29 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { isRedisAvailable } from "@/lib/redis";
+import { getCacheStats } from "@/lib/cache";
+import { getSolanaProviderHealth } from "@/lib/solanaProvider";
+
+/**
+ * "unavailable" when every provider of a capability has its circuit open,
+ * "degraded" when only some do
+ */
+function getSolanaStatus() {
+  const providers = getSolanaProviderHealth();
+  const capabilities = Array.from(new Set(providers.flatMap(provider => provider.capabilities)));
+
+  const unavailable = capabilities.some(capability =>
+    providers
+      .filter(provider => provider.capabilities.includes(capability))
+      .every(provider => provider.circuit === "open")
+  );
+  const degraded = providers.some(provider => provider.circuit !== "closed");
+
+  return {
+    status: unavailable ? "unavailable" : degraded ? "degraded" : "ok",
+    providers,
+  };
+}
 
 export async function GET() {
   try {
@@ -12,6 +35,8 @@ export async function GET() {
       environment: process.env.NODE_ENV || "development",
       database: "connected",
       redis: isRedisAvailable() ? "connected" : "not configured",
+      cache: getCacheStats(),
+      solana: getSolanaStatus(),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -21,6 +46,8 @@ export async function GET() {
         environment: process.env.NODE_ENV || "development",
         database: "error",
         redis: isRedisAvailable() ? "connected" : "not configured",
+        cache: getCacheStats(),
+        solana: getSolanaStatus(),
         error: error instanceof Error ? error.message : "Unknown error",
         timestamp: new Date().toISOString(),
       },
@@ -28,4 +55,3 @@ export async function GET() {
     );
   }
 }
-
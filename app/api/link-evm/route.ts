@@ -1,10 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { verifyMessage } from "ethers";
-import { getWassieverseNFTs } from "@/lib/solana";
+import { getOwnedNFTs, invalidateOwnedNFTs } from "@/lib/nftOwnership";
+import {
+  CampaignClosedError,
+  NonceError,
+  SessionTokenError,
+  SignatureVerificationError,
+  SignInMessageError,
+  UnknownMintError,
+} from "@/lib/errors";
+import { verifyVerificationToken, type VerificationClaims } from "@/lib/session";
+import { consumeEvmNonce, verifyEvmOwnership } from "@/lib/evmOwnership";
+import type { EvmSignatureMethod } from "@/lib/signatures/evm";
+import { getRequestContext, LinkEventType, recordLinkEvents } from "@/lib/linkEvents";
+import { assertMintsAllowlisted } from "@/lib/collectionManifest";
+import { findCollectionById } from "@/lib/collections";
+import { assertCampaignOpen } from "@/lib/campaign";
+import { withRateLimit } from "@/lib/rateLimit";
 
-export async function POST(req: NextRequest) {
+/**
+ * 409 payload shared by the pre-check and the unique-constraint race path,
+ * so the client handles both the same way
+ */
+function alreadyLinkedResponse(linkedTokenIds: string[]) {
+  console.log(`❌ NFT(s) already linked: ${linkedTokenIds.join(', ')}`);
+
+  return NextResponse.json(
+    { 
+      error: "NFT already linked", 
+      details: `Token ID(s) ${linkedTokenIds.join(', ')} are already linked to other wallets`,
+      alreadyLinked: linkedTokenIds
+    },
+    { status: 409 } // Conflict status code
+  );
+}
+
+async function handlePost(req: NextRequest) {
   try {
+    const requestContext = getRequestContext(req);
+
     let requestData;
     try {
       requestData = await req.json();
@@ -20,16 +55,17 @@ export async function POST(req: NextRequest) {
       solanaAddress,
       evmAddress,
       evmSignature, // Optional if EVM address is already linked (locked)
-      message,
-      nonce, // Optional - no longer required since we removed signature verification
-      solanaSignature, // Optional - no longer required since we removed signature verification
+      message, // SIWE message issued by /api/nonce for the EVM address
+      verificationToken, // Session token from verify-solana proving Solana wallet ownership
+      solanaSignature, // Optional - stored for reference, ownership is proven by verificationToken
       selectedTokenIds, // Optional: if provided, only link these specific tokenIds
-      skipEvmSignature, // Flag to skip EVM signature (when EVM is locked but not connected)
+      collection: collectionSlug, // Optional: must match the collection the session token was issued for
     } = requestData;
 
     if (
       !solanaAddress ||
-      !evmAddress
+      !evmAddress ||
+      !verificationToken
     ) {
       return NextResponse.json(
         { error: "Missing required fields" },
@@ -38,14 +74,14 @@ export async function POST(req: NextRequest) {
     }
 
     // Check if EVM address is already linked (has existing WalletLink)
-    // If so, we can skip EVM signature requirement
+    // If so, ownership was already proven and we can skip the EVM signature requirement
     const existingEvmLink = await prisma.walletLink.findFirst({
       where: {
         evmAddress: evmAddress.toLowerCase(),
       },
     });
 
-    const requiresEvmSignature = !skipEvmSignature && !existingEvmLink;
+    const requiresEvmSignature = !existingEvmLink || Boolean(evmSignature);
     
     if (requiresEvmSignature && (!evmSignature || !message)) {
       return NextResponse.json(
@@ -54,75 +90,113 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 1. Verify nonce (only if provided - optional now since we removed signature verification)
-    // If nonce is provided, verify it was used (for backward compatibility)
-    if (nonce) {
-      const nonceRecord = await prisma.nonce.findFirst({
-        where: {
-          nonce,
-          address: solanaAddress,
-        },
-        orderBy: {
-          createdAt: "desc",
-        },
-      });
+    // 1. Verify the session token issued by verify-solana
+    // Links can only be created for a Solana address that proved key ownership in this session
+    let verification: VerificationClaims;
+    try {
+      verification = verifyVerificationToken(verificationToken);
+    } catch (error) {
+      if (error instanceof SessionTokenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+      throw error;
+    }
 
-      if (nonceRecord) {
-        if (new Date() > nonceRecord.expiresAt) {
-          return NextResponse.json(
-            { error: "Nonce expired" },
-            { status: 400 }
-          );
-        }
+    if (verification.sub !== solanaAddress) {
+      return NextResponse.json(
+        { error: "Solana address was not verified in this session" },
+        { status: 401 }
+      );
+    }
 
-        if (!nonceRecord.used) {
-          return NextResponse.json(
-            { error: "Nonce has not been verified" },
-            { status: 400 }
-          );
-        }
+    // The collection is the one the NFTs were verified for, never a client choice
+    const collection = await findCollectionById(verification.collectionId);
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection of this verification no longer exists - please verify again" },
+        { status: 401 }
+      );
+    }
+
+    if (collectionSlug && String(collectionSlug).toLowerCase() !== collection.slug) {
+      return NextResponse.json(
+        { error: `Verification was issued for ${collection.name}, not ${collectionSlug}` },
+        { status: 400 }
+      );
+    }
+
+    // Links are accepted while the campaign is open and during its grace period
+    try {
+      assertCampaignOpen(collection, "link");
+    } catch (error) {
+      if (error instanceof CampaignClosedError) {
+        return NextResponse.json(
+          { error: error.message, code: "campaign_closed", campaign: error.campaign },
+          { status: 403 }
+        );
       }
-      // If nonce is provided but not found, that's okay - we'll proceed without it
+      throw error;
     }
 
-    // 2. Verify EVM signature (only if required)
+    // 2. Verify SIWE message and EVM signature (only if required)
+    // The nonce inside the message must have been issued by /api/nonce for this EVM address
+    let siweNonce: string | null = null;
+    let evmSignatureMethod: EvmSignatureMethod | null = null;
     if (requiresEvmSignature) {
       try {
-        console.log("Verifying EVM signature:", { message, evmSignature, evmAddress });
-        const recoveredAddress = verifyMessage(message, evmSignature);
-        console.log("Recovered address:", recoveredAddress);
-
-        if (recoveredAddress.toLowerCase() !== evmAddress.toLowerCase()) {
-          console.log("Address mismatch:", { recovered: recoveredAddress, expected: evmAddress });
+        const proof = await verifyEvmOwnership({
+          evmAddress,
+          message,
+          signature: evmSignature,
+          requestUrl: req.url,
+        });
+        siweNonce = proof.nonce;
+        evmSignatureMethod = proof.method;
+      } catch (error) {
+        if (
+          error instanceof SignInMessageError ||
+          error instanceof NonceError ||
+          error instanceof SignatureVerificationError
+        ) {
+          console.error("EVM ownership proof rejected:", error.message);
           return NextResponse.json(
-            { error: "Invalid EVM signature" },
+            { error: error.message },
             { status: 400 }
           );
         }
-      } catch (error) {
-        console.error("EVM signature verification error:", error);
-        return NextResponse.json(
-          { error: "EVM signature verification failed" },
-          { status: 400 }
-        );
+        throw error;
       }
     } else {
       console.log("⏭️ Skipping EVM signature verification - EVM address already linked or locked");
     }
 
     // 3. Re-verify Solana NFT ownership server-side
+    // Only NFTs that were proven at verification time AND are still held can be linked
     let allNFTs: { mintAddress: string; tokenId: string }[] = [];
     try {
-      allNFTs = await getWassieverseNFTs(solanaAddress);
+      const verifiedMints = new Set(verification.nfts.map(nft => nft.mintAddress));
+      allNFTs = (await getOwnedNFTs(solanaAddress, collection, { fresh: true })).filter(nft => verifiedMints.has(nft.mintAddress));
 
       if (allNFTs.length === 0) {
         return NextResponse.json(
-          { error: "No Wassieverse NFTs found. Ownership may have changed." },
+          { error: `No ${collection.name} NFTs found. Ownership may have changed.` },
           { status: 404 }
         );
       }
+
+      // Double-check every mint against the CollectionMint allowlist before anything is written
+      await assertMintsAllowlisted(collection.id, allNFTs);
     } catch (error) {
       console.error("Error fetching NFTs:", error);
+      if (error instanceof UnknownMintError) {
+        return NextResponse.json(
+          { error: error.message, unknownMints: error.mints },
+          { status: 403 }
+        );
+      }
       return NextResponse.json(
         { error: "Failed to verify NFT ownership" },
         { status: 500 }
@@ -158,13 +232,12 @@ export async function POST(req: NextRequest) {
       console.log(`✅ Linking all ${nfts.length} NFT(s)`);
     }
 
-    // Extract token IDs for database storage
     const tokenIds = nfts.map(nft => nft.tokenId);
-    const tokenIdsJson = JSON.stringify(tokenIds);
 
     // 5. Check for already linked NFTs (prevent double-linking)
     const alreadyLinkedNFTs = await prisma.linkedNFT.findMany({
       where: {
+        collectionId: collection.id,
         tokenId: {
           in: tokenIds
         }
@@ -177,17 +250,7 @@ export async function POST(req: NextRequest) {
     });
 
     if (alreadyLinkedNFTs.length > 0) {
-      const linkedTokenIds = alreadyLinkedNFTs.map(nft => nft.tokenId);
-      console.log(`❌ NFT(s) already linked: ${linkedTokenIds.join(', ')}`);
-      
-      return NextResponse.json(
-        { 
-          error: "NFT already linked", 
-          details: `Token ID(s) ${linkedTokenIds.join(', ')} are already linked to other wallets`,
-          alreadyLinked: linkedTokenIds
-        },
-        { status: 409 } // Conflict status code
-      );
+      return alreadyLinkedResponse(alreadyLinkedNFTs.map(nft => nft.tokenId));
     }
 
     // 6. Save wallet link to database
@@ -205,12 +268,11 @@ export async function POST(req: NextRequest) {
     // If creating new link, we need evmSignature (but can use existing one from another link if EVM already linked)
     // solanaSignature is now optional since we removed signature verification
     const updateData: {
-      tokenIds: string;
       solanaSignature?: string;
       evmSignature?: string;
+      evmSignatureMethod?: string;
       updatedAt: Date;
     } = {
-      tokenIds: tokenIdsJson,
       updatedAt: new Date(),
     };
     
@@ -220,15 +282,18 @@ export async function POST(req: NextRequest) {
     }
 
     // Only include evmSignature in update if provided
-    if (evmSignature) {
+    if (evmSignature && evmSignatureMethod) {
       updateData.evmSignature = evmSignature;
+      updateData.evmSignatureMethod = evmSignatureMethod;
     }
 
     // For create, we need evmSignature - use provided one or get from existing EVM link
     let createEvmSignature = evmSignature;
+    let createEvmSignatureMethod: string | null = evmSignatureMethod;
     if (!createEvmSignature && existingEvmLink) {
       // EVM address already linked with a different Solana wallet - use the existing signature
       createEvmSignature = existingEvmLink.evmSignature;
+      createEvmSignatureMethod = existingEvmLink.evmSignatureMethod;
       console.log('📋 Using existing EVM signature from previous link (EVM already linked)');
     } else if (!createEvmSignature && !existingWalletLink) {
       // No signature and no existing link - this shouldn't happen if logic is correct
@@ -238,89 +303,141 @@ export async function POST(req: NextRequest) {
     } else if (!createEvmSignature && existingWalletLink) {
       // Updating existing link - use the existing signature
       createEvmSignature = existingWalletLink.evmSignature;
+      createEvmSignatureMethod = existingWalletLink.evmSignatureMethod;
       console.log('📋 Using existing EVM signature from current link (updating)');
     }
 
-    const walletLink = await prisma.walletLink.upsert({
-      where: {
-        solanaAddress_evmAddress: {
-          solanaAddress,
-          evmAddress: evmAddress.toLowerCase(),
-        },
-      },
-      update: updateData,
-      create: {
-        solanaAddress,
-        evmAddress: evmAddress.toLowerCase(),
-        tokenIds: tokenIdsJson,
-        solanaSignature: solanaSignature || '', // Use empty string if not provided
-        evmSignature: createEvmSignature,
-      },
-    });
+    // Write the link, its NFTs and the SIWE nonce consumption in one transaction
+    // so an EVM signature can only ever be used for a single link
+    let walletLink;
+    try {
+      walletLink = await prisma.$transaction(async (tx) => {
+        if (siweNonce) {
+          await consumeEvmNonce(tx, siweNonce, evmAddress);
+        }
 
-    // 7. Handle LinkedNFT entries
-    let linkedNFTs;
-    if (existingWalletLink) {
-      // Update existing wallet link - add new NFTs to existing ones
-      const existingTokenIds = await prisma.linkedNFT.findMany({
-        where: { walletLinkId: existingWalletLink.id },
-        select: { tokenId: true }
-      }).then(nfts => nfts.map(nft => nft.tokenId));
-
-      // Only create entries for new token IDs
-      const newNFTs = nfts.filter(nft => !existingTokenIds.includes(nft.tokenId));
-      
-      if (newNFTs.length > 0) {
-        linkedNFTs = await Promise.all(
-          newNFTs.map(nft => 
-            prisma.linkedNFT.create({
-              data: {
-                tokenId: nft.tokenId,
-                mintAddress: nft.mintAddress,
-                solanaAddress,
-                evmAddress: evmAddress.toLowerCase(),
-                walletLinkId: walletLink.id,
-              }
-            })
-          )
-        );
-        console.log(`✅ Added ${linkedNFTs.length} new LinkedNFT entries:`, linkedNFTs.map(nft => `Token ID ${nft.tokenId}`));
-      } else {
-        console.log(`✅ No new NFTs to add - all already linked`);
-        linkedNFTs = [];
-      }
-    } else {
-      // Create new wallet link
-      linkedNFTs = await Promise.all(
-        nfts.map(nft => 
-          prisma.linkedNFT.create({
-            data: {
+        const walletLink = await tx.walletLink.upsert({
+          where: {
+            solanaAddress_evmAddress: {
+              solanaAddress,
+              evmAddress: evmAddress.toLowerCase(),
+            },
+          },
+          update: updateData,
+          create: {
+            solanaAddress,
+            evmAddress: evmAddress.toLowerCase(),
+            solanaSignature: solanaSignature || '', // Use empty string if not provided
+            evmSignature: createEvmSignature,
+            evmSignatureMethod: createEvmSignatureMethod,
+          },
+        });
+
+        // 7. Create LinkedNFT entries in a single insert - if another request linked
+        // one of these tokens since the pre-check, the unique violation rolls back everything
+        let newNFTs = nfts;
+        if (existingWalletLink) {
+          // Update existing wallet link - add new NFTs to existing ones
+          const existingTokenIds = await tx.linkedNFT.findMany({
+            where: { walletLinkId: existingWalletLink.id, collectionId: collection.id },
+            select: { tokenId: true }
+          }).then(nfts => nfts.map(nft => nft.tokenId));
+
+          newNFTs = nfts.filter(nft => !existingTokenIds.includes(nft.tokenId));
+        }
+
+        if (newNFTs.length > 0) {
+          const { count } = await tx.linkedNFT.createMany({
+            data: newNFTs.map(nft => ({
+              collectionId: collection.id,
               tokenId: nft.tokenId,
               mintAddress: nft.mintAddress,
               solanaAddress,
               evmAddress: evmAddress.toLowerCase(),
               walletLinkId: walletLink.id,
-            }
-          })
-        )
-      );
-      console.log(`✅ Created ${linkedNFTs.length} LinkedNFT entries:`, linkedNFTs.map(nft => `Token ID ${nft.tokenId}`));
+            })),
+          });
+          console.log(`✅ Created ${count} LinkedNFT entries:`, newNFTs.map(nft => `Token ID ${nft.tokenId}`));
+
+          await recordLinkEvents(
+            tx,
+            requestContext,
+            newNFTs.map(nft => ({
+              type: existingWalletLink ? LinkEventType.NFTS_ADDED : LinkEventType.CREATED,
+              collectionId: collection.id,
+              tokenId: nft.tokenId,
+              mintAddress: nft.mintAddress,
+              actor: solanaAddress,
+              solanaAddress,
+              evmAddress: evmAddress.toLowerCase(),
+              signatureMethod: verification.method,
+              evmSignatureMethod: walletLink.evmSignatureMethod,
+            }))
+          );
+        } else {
+          console.log(`✅ No new NFTs to add - all already linked`);
+        }
+
+        return walletLink;
+      });
+    } catch (error) {
+      if (error instanceof NonceError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      // Lost a race with a concurrent link - report exactly which tokens the other request took
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        const raceLinkedNFTs = await prisma.linkedNFT.findMany({
+          where: {
+            collectionId: collection.id,
+            tokenId: { in: tokenIds },
+          },
+          select: { tokenId: true },
+        });
+
+        if (raceLinkedNFTs.length > 0) {
+          return alreadyLinkedResponse(raceLinkedNFTs.map(nft => nft.tokenId));
+        }
+
+        return NextResponse.json(
+          { error: "Link was modified by another request, please try again", alreadyLinked: [] },
+          { status: 409 }
+        );
+      }
+      throw error;
     }
 
-    // Get the count of linked NFTs for this EVM address
-    const nftCount = await prisma.linkedNFT.count({
-      where: {
-        evmAddress: evmAddress.toLowerCase(),
-      },
-    });
+    // Don't let check-nfts / verify-solana keep serving the pre-link holdings
+    await invalidateOwnedNFTs(collection, [solanaAddress]);
+
+    // Token lists always come from LinkedNFT rows
+    const [linkedTokenIds, nftCount] = await Promise.all([
+      prisma.linkedNFT.findMany({
+        where: { walletLinkId: walletLink.id, collectionId: collection.id },
+        select: { tokenId: true },
+        orderBy: { linkedAt: "asc" },
+      }).then(nfts => nfts.map(nft => nft.tokenId)),
+      // Get the count of this collection's NFTs linked to this EVM address
+      prisma.linkedNFT.count({
+        where: {
+          collectionId: collection.id,
+          evmAddress: evmAddress.toLowerCase(),
+        },
+      }),
+    ]);
 
     return NextResponse.json({
       success: true,
       message: "Wallets linked successfully",
+      requestId: requestContext.requestId,
       data: {
+        collection: collection.slug,
         solanaAddress: walletLink.solanaAddress,
         evmAddress: walletLink.evmAddress,
-        tokenIds: tokenIds, // Return as array for frontend
+        tokenIds: linkedTokenIds, // All NFTs linked for this Solana/EVM pair
         tokenCount: nftCount, // Total count of NFTs linked to this EVM address
         verifiedAt: walletLink.verifiedAt,
       },
@@ -334,3 +451,4 @@ export async function POST(req: NextRequest) {
   }
 }
 
+export const POST = withRateLimit("link-evm", handlePost);
@@ -1,58 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { checkRateLimit } from "@/lib/rateLimit";
-
-const DEFAULT_RATE_LIMIT = Number(
-  process.env.NFT_LINKSTATUS_RATE_LIMIT ?? 20
-);
-const DEFAULT_RATE_WINDOW_SECONDS = Number(
-  process.env.NFT_LINKSTATUS_RATE_WINDOW ?? 60
-);
-
-function getClientIdentifier(req: NextRequest): string {
-  const headerIp =
-    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
-    req.headers.get("x-real-ip")?.trim() ??
-    req.headers.get("cf-connecting-ip")?.trim();
-
-  if (headerIp && headerIp.length > 0) {
-    return headerIp;
-  }
-
-  const userAgent = req.headers.get("user-agent") ?? "unknown-agent";
-  const accept = req.headers.get("accept") ?? "unknown-accept";
-
-  return `${userAgent}-${accept}`;
-}
-
-export async function POST(req: NextRequest) {
-  const clientId = getClientIdentifier(req);
-  const rateLimitKey = `nft-linkstatus:${clientId}`;
-
-  const rateLimitResult = checkRateLimit(rateLimitKey, {
-    limit: DEFAULT_RATE_LIMIT,
-    windowSeconds: DEFAULT_RATE_WINDOW_SECONDS,
-  });
-
-  if (!rateLimitResult.allowed) {
-    return NextResponse.json(
-      {
-        error:
-          "Too many checks from this address. Please wait a moment before trying again.",
-        resetAt: new Date(rateLimitResult.reset).toISOString(),
-      },
-      {
-        status: 429,
-        headers: {
-          "Retry-After": Math.max(
-            Math.ceil((rateLimitResult.reset - Date.now()) / 1000),
-            0
-          ).toString(),
-        },
-      }
-    );
-  }
+import { withRateLimit, type RateLimitResult } from "@/lib/rateLimit";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { isTokenIdInRange } from "@/lib/collectionInfo";
 
+async function handlePost(req: NextRequest, rateLimit: RateLimitResult | null) {
   let payload: unknown;
 
   try {
@@ -76,6 +28,15 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  const collectionSlug = (payload as { collection?: unknown }).collection;
+  const collection = await findCollection(typeof collectionSlug === "string" ? collectionSlug : null);
+  if (!collection) {
+    return NextResponse.json(
+      { error: unknownCollectionMessage(typeof collectionSlug === "string" ? collectionSlug : null) },
+      { status: 404 }
+    );
+  }
+
   const rawTokenId = (payload as { tokenId: unknown }).tokenId;
   const tokenIdNumber =
     typeof rawTokenId === "string" && rawTokenId.trim() !== ""
@@ -84,13 +45,11 @@ export async function POST(req: NextRequest) {
         ? rawTokenId
         : NaN;
 
-  if (
-    !Number.isInteger(tokenIdNumber) ||
-    tokenIdNumber < 0 ||
-    tokenIdNumber > 2999
-  ) {
+  if (!isTokenIdInRange(collection, tokenIdNumber)) {
     return NextResponse.json(
-      { error: "tokenId must be an integer between 0 and 2999" },
+      {
+        error: `tokenId must be an integer between ${collection.minTokenId} and ${collection.maxTokenId}`,
+      },
       { status: 400 }
     );
   }
@@ -100,7 +59,10 @@ export async function POST(req: NextRequest) {
   try {
     const linkedNFT = await prisma.linkedNFT.findUnique({
       where: {
-        tokenId,
+        collectionId_tokenId: {
+          collectionId: collection.id,
+          tokenId,
+        },
       },
       select: {
         evmAddress: true,
@@ -112,12 +74,13 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       success: true,
       data: {
+        collection: collection.slug,
         tokenId,
         isLinked: Boolean(linkedNFT),
         linkedTo: linkedNFT?.evmAddress ?? null,
         solanaAddress: linkedNFT?.solanaAddress ?? null,
         linkedAt: linkedNFT?.linkedAt?.toISOString() ?? null,
-        remainingChecks: rateLimitResult.remaining,
+        remainingChecks: rateLimit?.remaining ?? null,
       },
     });
   } catch (error) {
@@ -129,4 +92,4 @@ export async function POST(req: NextRequest) {
   }
 }
 
-
+export const POST = withRateLimit("nft-linkstatus", handlePost);
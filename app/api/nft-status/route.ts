@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withRateLimit } from "@/lib/rateLimit";
 
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
-    const { tokenIds } = await req.json();
+    const { tokenIds, collection: collectionSlug } = await req.json();
 
     if (!tokenIds || !Array.isArray(tokenIds)) {
       return NextResponse.json(
@@ -12,10 +14,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // CRITICAL: Check globally if tokenIds are linked (tokenId has global uniqueness constraint)
-    // A tokenId can only be linked once globally, regardless of which EVM address
+    const collection = await findCollection(collectionSlug);
+    if (!collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
+
+    // CRITICAL: Check globally if tokenIds are linked (unique per collection and tokenId)
+    // A tokenId can only be linked once per collection, regardless of which EVM address
     const linkedNFTs = await prisma.linkedNFT.findMany({
       where: {
+        collectionId: collection.id,
         tokenId: {
           in: tokenIds
         }
@@ -53,3 +64,4 @@ export async function POST(req: NextRequest) {
   }
 }
 
+export const POST = withRateLimit("nft-status", handlePost);
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { randomBytes } from "crypto";
-import { setCache } from "@/lib/redis";
+import { randomBytes, randomUUID } from "crypto";
+import { setCache } from "@/lib/cache";
+import { NONCE_EXPIRATION_MS } from "@/lib/constants";
+import { getSignInConfig } from "@/lib/signatures/signIn";
+import { createSignInMemo, createSiwsMessage } from "@/lib/signatures/siws";
+import { createSiweMessage, isEvmAddress } from "@/lib/signatures/siwe";
+import { withRateLimit } from "@/lib/rateLimit";
 
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
     let address: string;
     
@@ -25,23 +30,49 @@ export async function POST(req: NextRequest) {
 
     // Generate a cryptographically secure random nonce
     const nonce = randomBytes(32).toString("hex");
+    const requestId = randomUUID();
 
     // Set expiration to 5 minutes from now
-    const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_EXPIRATION_MS);
 
-    // Store nonce in database
+    // Build the full sign-in message server-side so the client can't pick the domain or expiry.
+    // EVM addresses get a SIWE (EIP-4361) message, everything else a SIWS message.
+    const isEvm = isEvmAddress(address);
+    const config = getSignInConfig(req.url);
+    const messageParams = {
+      address,
+      nonce,
+      requestId,
+      issuedAt,
+      expiresAt,
+      config,
+    };
+    const message = isEvm ? createSiweMessage(messageParams) : createSiwsMessage(messageParams);
+
+    // Store nonce in database (EVM addresses lowercased to match WalletLink)
     await prisma.nonce.create({
       data: {
         nonce,
-        address,
+        address: isEvm ? address.toLowerCase() : address,
+        requestId,
+        createdAt: issuedAt,
         expiresAt,
       },
     });
 
-    // Cache nonce in Redis for faster lookups (5 minutes = 300 seconds)
+    // Cache nonce for faster lookups (5 minutes = 300 seconds)
     await setCache(`nonce:${nonce}`, JSON.stringify({ address, expiresAt: expiresAt.toISOString() }), 300);
 
-    return NextResponse.json({ nonce });
+    return NextResponse.json({
+      nonce,
+      message,
+      // Hardware wallets that can't sign messages put this in a memo transaction instead
+      memo: isEvm ? undefined : createSignInMemo(config.domain, nonce),
+      requestId,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
   } catch (error) {
     console.error("Error generating nonce:", error);
     // Log more details for debugging
@@ -62,3 +93,4 @@ export async function POST(req: NextRequest) {
   }
 }
 
+export const POST = withRateLimit("nonce", handlePost);
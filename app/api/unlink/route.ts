@@ -0,0 +1,360 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getOwnedNFTs, invalidateOwnedNFTs } from "@/lib/nftOwnership";
+import {
+  CampaignClosedError,
+  NonceError,
+  SessionTokenError,
+  SignatureVerificationError,
+  SignInMessageError,
+  UnknownMintError,
+} from "@/lib/errors";
+import { verifyVerificationToken, type VerificationClaims } from "@/lib/session";
+import { consumeEvmNonce, verifyEvmOwnership } from "@/lib/evmOwnership";
+import type { EvmSignatureMethod } from "@/lib/signatures/evm";
+import { isEvmAddress } from "@/lib/signatures/siwe";
+import { getRequestContext, LinkEventType, recordLinkEvents } from "@/lib/linkEvents";
+import { findCollectionById } from "@/lib/collections";
+import { assertCampaignOpen } from "@/lib/campaign";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * Lets the current holder of a linked NFT release it or point it at a new EVM address.
+ *
+ * Links are global per collection token ID, so once an NFT is sold the new holder would
+ * otherwise be stuck with the previous owner's link. The holder proves key
+ * ownership with a verify-solana session token and the NFT is re-checked on-chain.
+ * Every change is recorded in the LinkEvent history.
+ */
+async function handlePost(req: NextRequest) {
+  try {
+    const requestContext = getRequestContext(req);
+
+    let requestData;
+    try {
+      requestData = await req.json();
+    } catch (jsonError) {
+      console.error("JSON parsing error:", jsonError);
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    const {
+      solanaAddress,
+      verificationToken, // Session token from verify-solana proving Solana wallet ownership
+      tokenIds,
+      action,
+      evmAddress, // New EVM address (relink only)
+      evmSignature, // Optional if the new EVM address is already linked
+      message, // SIWE message issued by /api/nonce for the new EVM address
+      collection: collectionSlug, // Optional: must match the collection the session token was issued for
+    } = requestData;
+
+    if (
+      !solanaAddress ||
+      !verificationToken ||
+      !Array.isArray(tokenIds) ||
+      tokenIds.length === 0
+    ) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (action !== "unlink" && action !== "relink") {
+      return NextResponse.json(
+        { error: 'Invalid action - expected "unlink" or "relink"' },
+        { status: 400 }
+      );
+    }
+
+    if (action === "relink" && !evmAddress) {
+      return NextResponse.json(
+        { error: "Missing EVM address to relink to" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "relink" && !(typeof evmAddress === "string" && isEvmAddress(evmAddress))) {
+      return NextResponse.json(
+        { error: "Invalid EVM address to relink to" },
+        { status: 400 }
+      );
+    }
+
+    const requestedTokenIds: string[] = Array.from(new Set(tokenIds.map(String)));
+    const newEvmAddress: string | null = action === "relink" ? evmAddress.toLowerCase() : null;
+
+    // 1. Verify the session token issued by verify-solana
+    let verification: VerificationClaims;
+    try {
+      verification = verifyVerificationToken(verificationToken);
+    } catch (error) {
+      if (error instanceof SessionTokenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+      throw error;
+    }
+
+    if (verification.sub !== solanaAddress) {
+      return NextResponse.json(
+        { error: "Solana address was not verified in this session" },
+        { status: 401 }
+      );
+    }
+
+    const collection = await findCollectionById(verification.collectionId);
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection of this verification no longer exists - please verify again" },
+        { status: 401 }
+      );
+    }
+
+    if (collectionSlug && String(collectionSlug).toLowerCase() !== collection.slug) {
+      return NextResponse.json(
+        { error: `Verification was issued for ${collection.name}, not ${collectionSlug}` },
+        { status: 400 }
+      );
+    }
+
+    // Same window as link-evm - a verification issued before the close can't keep relinking
+    try {
+      assertCampaignOpen(collection, "link");
+    } catch (error) {
+      if (error instanceof CampaignClosedError) {
+        return NextResponse.json(
+          { error: error.message, code: "campaign_closed", campaign: error.campaign },
+          { status: 403 }
+        );
+      }
+      throw error;
+    }
+
+    // 2. Relinking to an EVM address that has never been linked requires proof of ownership,
+    // same rule as link-evm
+    let siweNonce: string | null = null;
+    let evmSignatureMethod: EvmSignatureMethod | null = null;
+    let existingEvmLink = null;
+    if (newEvmAddress) {
+      existingEvmLink = await prisma.walletLink.findFirst({
+        where: { evmAddress: newEvmAddress },
+      });
+
+      const requiresEvmSignature = !existingEvmLink || Boolean(evmSignature);
+
+      if (requiresEvmSignature) {
+        if (!evmSignature || !message) {
+          return NextResponse.json(
+            { error: "Missing EVM signature - required to relink to a new EVM address" },
+            { status: 400 }
+          );
+        }
+
+        try {
+          const proof = await verifyEvmOwnership({
+            evmAddress: newEvmAddress,
+            message,
+            signature: evmSignature,
+            requestUrl: req.url,
+          });
+          siweNonce = proof.nonce;
+          evmSignatureMethod = proof.method;
+        } catch (error) {
+          if (
+            error instanceof SignInMessageError ||
+            error instanceof NonceError ||
+            error instanceof SignatureVerificationError
+          ) {
+            console.error("EVM ownership proof rejected:", error.message);
+            return NextResponse.json(
+              { error: error.message },
+              { status: 400 }
+            );
+          }
+          throw error;
+        }
+      }
+    }
+
+    // 3. Re-verify on-chain that the caller still holds every requested NFT
+    let heldNFTs: { mintAddress: string; tokenId: string }[] = [];
+    try {
+      const verifiedMints = new Set(verification.nfts.map(nft => nft.mintAddress));
+      heldNFTs = (await getOwnedNFTs(solanaAddress, collection, { fresh: true })).filter(nft => verifiedMints.has(nft.mintAddress));
+    } catch (error) {
+      console.error("Error fetching NFTs:", error);
+      if (error instanceof UnknownMintError) {
+        return NextResponse.json(
+          { error: error.message, unknownMints: error.mints },
+          { status: 403 }
+        );
+      }
+      return NextResponse.json(
+        { error: "Failed to verify NFT ownership" },
+        { status: 500 }
+      );
+    }
+
+    const notHeld = requestedTokenIds.filter(id => !heldNFTs.some(nft => nft.tokenId === id));
+    if (notHeld.length > 0) {
+      return NextResponse.json(
+        { error: `You don't own the following NFTs: ${notHeld.join(', ')}` },
+        { status: 403 }
+      );
+    }
+
+    // 4. Load the current links
+    const currentLinks = await prisma.linkedNFT.findMany({
+      where: {
+        collectionId: collection.id,
+        tokenId: { in: requestedTokenIds },
+      },
+    });
+
+    const notLinked = requestedTokenIds.filter(id => !currentLinks.some(link => link.tokenId === id));
+    if (notLinked.length > 0) {
+      return NextResponse.json(
+        { error: `The following NFTs are not linked: ${notLinked.join(', ')}`, notLinked },
+        { status: 404 }
+      );
+    }
+
+    if (newEvmAddress) {
+      const unchanged = currentLinks.filter(
+        link => link.evmAddress === newEvmAddress && link.solanaAddress === solanaAddress
+      );
+      if (unchanged.length > 0) {
+        return NextResponse.json(
+          { error: `Token ID(s) ${unchanged.map(link => link.tokenId).join(', ')} are already linked to this EVM address` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 5. Apply the change, its history and the SIWE nonce consumption in one transaction.
+    // Updates are guarded on the link we just read, so a concurrent change rolls everything back.
+    try {
+      await prisma.$transaction(async (tx) => {
+        if (siweNonce && newEvmAddress) {
+          await consumeEvmNonce(tx, siweNonce, newEvmAddress);
+        }
+
+        if (newEvmAddress) {
+          const walletLink = await tx.walletLink.upsert({
+            where: {
+              solanaAddress_evmAddress: {
+                solanaAddress,
+                evmAddress: newEvmAddress,
+              },
+            },
+            update: evmSignature && evmSignatureMethod
+              ? { evmSignature, evmSignatureMethod }
+              : {},
+            create: {
+              solanaAddress,
+              evmAddress: newEvmAddress,
+              solanaSignature: '',
+              evmSignature: evmSignature || existingEvmLink?.evmSignature || '',
+              evmSignatureMethod: evmSignatureMethod ?? existingEvmLink?.evmSignatureMethod ?? null,
+            },
+          });
+
+          for (const link of currentLinks) {
+            await tx.linkedNFT.update({
+              where: { id: link.id, evmAddress: link.evmAddress, solanaAddress: link.solanaAddress },
+              data: {
+                evmAddress: newEvmAddress,
+                solanaAddress,
+                walletLinkId: walletLink.id,
+                linkedAt: new Date(),
+              },
+            });
+          }
+        } else {
+          for (const link of currentLinks) {
+            await tx.linkedNFT.delete({
+              where: { id: link.id, evmAddress: link.evmAddress, solanaAddress: link.solanaAddress },
+            });
+          }
+        }
+
+        await recordLinkEvents(
+          tx,
+          requestContext,
+          currentLinks.map(link => ({
+            type: newEvmAddress ? LinkEventType.RELINKED : LinkEventType.UNLINKED,
+            collectionId: collection.id,
+            tokenId: link.tokenId,
+            mintAddress: link.mintAddress,
+            actor: solanaAddress,
+            solanaAddress: newEvmAddress ? solanaAddress : null,
+            evmAddress: newEvmAddress,
+            previousSolanaAddress: link.solanaAddress,
+            previousEvmAddress: link.evmAddress,
+            signatureMethod: verification.method,
+            evmSignatureMethod,
+          }))
+        );
+      });
+    } catch (error) {
+      if (error instanceof NonceError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      // P2025: a guarded row changed since we read it; P2002: the new EVM address took the mint concurrently
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === "P2025" || error.code === "P2002")
+      ) {
+        return NextResponse.json(
+          { error: "Link was modified by another request, please try again" },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await invalidateOwnedNFTs(collection, [solanaAddress]);
+
+    console.log(
+      `✅ ${action === "relink" ? `Relinked to ${newEvmAddress}` : "Unlinked"}: ${requestedTokenIds.map(id => `Token ID ${id}`).join(', ')}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: action === "relink" ? "NFTs relinked successfully" : "NFTs unlinked successfully",
+      requestId: requestContext.requestId,
+      data: {
+        action,
+        collection: collection.slug,
+        solanaAddress,
+        evmAddress: newEvmAddress,
+        tokenIds: requestedTokenIds,
+        previousLinks: currentLinks.map(link => ({
+          tokenId: link.tokenId,
+          evmAddress: link.evmAddress,
+          solanaAddress: link.solanaAddress,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error in unlink:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit("unlink", handlePost);
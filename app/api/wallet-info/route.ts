@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findCollection, unknownCollectionMessage } from "@/lib/collections";
+import { withRateLimit } from "@/lib/rateLimit";
 
 /**
  * GET /api/wallet-info?evmAddress=0x... or ?solanaAddress=...
  * Returns wallet link information including NFT count
+ * (across every collection unless ?collection=<slug> is given)
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const evmAddress = searchParams.get("evmAddress");
     const solanaAddress = searchParams.get("solanaAddress");
+    const collectionSlug = searchParams.get("collection");
 
     if (!evmAddress && !solanaAddress) {
       return NextResponse.json(
@@ -18,6 +22,14 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    const collection = collectionSlug ? await findCollection(collectionSlug) : null;
+    if (collectionSlug && !collection) {
+      return NextResponse.json(
+        { error: unknownCollectionMessage(collectionSlug) },
+        { status: 404 }
+      );
+    }
+
     // Find wallet link
     const walletLink = await prisma.walletLink.findFirst({
       where: evmAddress
@@ -27,8 +39,10 @@ export async function GET(req: NextRequest) {
         : undefined,
       include: {
         linkedNFTs: {
+          where: collection ? { collectionId: collection.id } : undefined,
           select: {
             id: true,
+            collection: { select: { slug: true } },
             tokenId: true,
             mintAddress: true,
             linkedAt: true,
@@ -57,7 +71,7 @@ export async function GET(req: NextRequest) {
         evmAddress: walletLink.evmAddress,
         tokenCount,
         tokenIds: walletLink.linkedNFTs.map((nft) => nft.tokenId),
-        nfts: walletLink.linkedNFTs,
+        nfts: walletLink.linkedNFTs.map(({ collection, ...nft }) => ({ ...nft, collection: collection.slug })),
         verifiedAt: walletLink.verifiedAt,
         updatedAt: walletLink.updatedAt,
       },
@@ -71,3 +85,4 @@ export async function GET(req: NextRequest) {
   }
 }
 
+export const GET = withRateLimit("wallet-info", handleGet);
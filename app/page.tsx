@@ -2,8 +2,16 @@
 
 import Image from "next/image";
 import { NFTLinkStatus } from "@/components/NFTLinkStatus";
+import { NFTUnlink } from "@/components/NFTUnlink";
+import { CampaignBanner } from "@/components/CampaignBanner";
+import { Loader2 } from "lucide-react";
+import { useCollections } from "@/hooks/use-collections";
+import { useCampaign } from "@/hooks/use-campaign";
 
 export default function Home() {
+  const { collections, collection, selectCollection, isLoading, error } = useCollections();
+  const { campaign } = useCampaign(collection?.slug ?? null);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-[#0a0a0f] via-[#121212] to-[#1a0a1f] dark">
       <div className="container mx-auto px-4 py-12">
@@ -22,15 +30,50 @@ export default function Home() {
             </div>
           </div>
 
-          {/* Information Message */}
-          <div className="text-center">
-            <p className="text-lg text-[#A0A0A0] max-w-2xl mx-auto font-semibold">
-              NFT TO EVM WALLET LINKER IS CLOSED, YOU CAN STILL CHECK IF YOUR LINKED YOUR NFTS BELOW
+          {/* Collection selector - only when this deployment runs several campaigns */}
+          {collections.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-2">
+              {collections.map(option => (
+                <button
+                  key={option.slug}
+                  type="button"
+                  onClick={() => selectCollection(option.slug)}
+                  className={`rounded-xl border px-4 py-2 text-sm font-medium transition-colors ${
+                    option.slug === collection?.slug
+                      ? "border-[#B066FF] bg-[#2a1a3a] text-white"
+                      : "border-[#2a2a2a] bg-[#121212] text-[#A0A0A0] hover:border-[#B066FF]/50"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Information Message - linking window from /api/campaign */}
+          {campaign && <CampaignBanner campaign={campaign} />}
+
+          {isLoading && (
+            <div className="flex justify-center text-[#A0A0A0]">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          )}
+
+          {!isLoading && !collection && (
+            <p className="text-center text-sm text-red-300">
+              {error ?? "No collections are configured yet."}
             </p>
-          </div>
+          )}
+
+          {collection && (
+            <>
+              {/* NFT Link Status */}
+              <NFTLinkStatus key={`status-${collection.slug}`} collection={collection} />
 
-          {/* NFT Link Status */}
-          <NFTLinkStatus />
+              {/* Unlink / relink for current holders - needs a fresh verification, so only while open */}
+              {campaign?.state === "open" && <NFTUnlink collection={collection} />}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,52 @@
+"use client";
+
+import type { CampaignStatus } from "@/lib/campaign";
+
+interface CampaignBannerProps {
+  campaign: CampaignStatus;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "";
+}
+
+function getCampaignMessage(campaign: CampaignStatus): { title: string; detail: string | null } {
+  switch (campaign.state) {
+    case "upcoming":
+      return {
+        title: "NFT TO EVM WALLET LINKER IS NOT OPEN YET",
+        detail: `Linking opens ${formatDate(campaign.opensAt)}`,
+      };
+    case "open":
+      return {
+        title: "NFT TO EVM WALLET LINKER IS OPEN",
+        detail: campaign.closesAt ? `Linking closes ${formatDate(campaign.closesAt)}` : null,
+      };
+    case "grace":
+      return {
+        title: "NFT TO EVM WALLET LINKER IS CLOSED",
+        detail: `Wallets verified before the deadline can finish linking until ${formatDate(campaign.graceEndsAt)}`,
+      };
+    default:
+      return {
+        title: "NFT TO EVM WALLET LINKER IS CLOSED, YOU CAN STILL CHECK IF YOUR LINKED YOUR NFTS BELOW",
+        detail: null,
+      };
+  }
+}
+
+/**
+ * Linking window message, rendered from the server's /api/campaign state
+ */
+export function CampaignBanner({ campaign }: CampaignBannerProps) {
+  const { title, detail } = getCampaignMessage(campaign);
+
+  return (
+    <div className="text-center space-y-1">
+      <p className="text-lg text-[#A0A0A0] max-w-2xl mx-auto font-semibold">
+        {title}
+      </p>
+      {detail && <p className="text-sm text-[#A0A0A0]">{detail}</p>}
+    </div>
+  );
+}
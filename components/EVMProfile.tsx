@@ -12,6 +12,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ExternalLink, Loader2, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getTokenName } from "@/lib/collectionInfo";
 
 interface EVMProfileProps {
   evmAddress: string;
@@ -34,6 +35,7 @@ interface ProfileData {
       tokenId: string;
       mintAddress: string;
       linkedAt: string;
+      collection: { slug: string; name: string };
     }[];
     verifiedAt: string;
   }[];
@@ -126,7 +128,7 @@ export function EVMProfile({ evmAddress, onAddAnotherWallet }: EVMProfileProps)
             <div>
               <CardTitle>Your EVM Profile</CardTitle>
               <CardDescription>
-                All your Wassieverse NFTs from {profileData.solanaWallets.length} Solana wallet
+                All your linked NFTs from {profileData.solanaWallets.length} Solana wallet
                 {profileData.solanaWallets.length !== 1 ? "s" : ""}
               </CardDescription>
             </div>
@@ -208,7 +210,7 @@ export function EVMProfile({ evmAddress, onAddAnotherWallet }: EVMProfileProps)
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="font-semibold text-sm">
-                          Wassieverse #{nft.tokenId}
+                          {getTokenName(nft.collection, nft.tokenId)}
                         </p>
                         <p className="text-xs text-muted-foreground">
                           Linked {new Date(nft.linkedAt).toLocaleDateString()}
@@ -243,7 +245,7 @@ export function EVMProfile({ evmAddress, onAddAnotherWallet }: EVMProfileProps)
                 No NFTs linked yet
               </p>
               <p className="text-muted-foreground">
-                Connect your first Solana wallet and verify your Wassieverse NFTs to get started!
+                Connect your first Solana wallet and verify your NFTs to get started!
               </p>
             </div>
             <Button onClick={onAddAnotherWallet} className="mt-4">
@@ -4,9 +4,7 @@ import { useCallback, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2, Search } from "lucide-react";
-
-const MIN_TOKEN_ID = 0;
-const MAX_TOKEN_ID = 2999;
+import { isTokenIdInRange, type CollectionInfo } from "@/lib/collectionInfo";
 
 type StatusType = "idle" | "available" | "linked" | "error";
 
@@ -19,6 +17,7 @@ interface StatusState {
 interface LinkStatusResponse {
   success: boolean;
   data?: {
+    collection: string;
     tokenId: string;
     isLinked: boolean;
     linkedTo: string | null;
@@ -49,15 +48,21 @@ function getStatusStyles(type: StatusType): string {
   }
 }
 
-export function NFTLinkStatus() {
+interface NFTLinkStatusProps {
+  collection: CollectionInfo;
+}
+
+export function NFTLinkStatus({ collection }: NFTLinkStatusProps) {
   const [tokenInput, setTokenInput] = useState("");
   const [status, setStatus] = useState<StatusState | null>(null);
   const [isChecking, setIsChecking] = useState(false);
   const [resetAt, setResetAt] = useState<string | null>(null);
 
+  const { minTokenId, maxTokenId } = collection;
+
   const description = useMemo(
-    () => "Check if a specific Wassieverse NFT Token ID is already linked.",
-    []
+    () => `Check if a specific ${collection.name} NFT Token ID is already linked.`,
+    [collection.name]
   );
 
   const handleSubmit = useCallback(
@@ -76,15 +81,10 @@ export function NFTLinkStatus() {
 
       const parsedTokenId = Number.parseInt(trimmed, 10);
 
-      if (
-        Number.isNaN(parsedTokenId) ||
-        !Number.isInteger(parsedTokenId) ||
-        parsedTokenId < MIN_TOKEN_ID ||
-        parsedTokenId > MAX_TOKEN_ID
-      ) {
+      if (!isTokenIdInRange(collection, parsedTokenId)) {
         setStatus({
           type: "error",
-          message: `Token ID must be a whole number between ${MIN_TOKEN_ID} and ${MAX_TOKEN_ID}.`,
+          message: `Token ID must be a whole number between ${minTokenId} and ${maxTokenId}.`,
         });
         return;
       }
@@ -99,7 +99,7 @@ export function NFTLinkStatus() {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ tokenId: parsedTokenId }),
+          body: JSON.stringify({ tokenId: parsedTokenId, collection: collection.slug }),
         });
 
         const data: LinkStatusResponse = await response.json().catch(() => ({
@@ -156,7 +156,7 @@ export function NFTLinkStatus() {
         setIsChecking(false);
       }
     },
-    [tokenInput]
+    [tokenInput, collection, minTokenId, maxTokenId]
   );
 
   return (
@@ -175,9 +175,9 @@ export function NFTLinkStatus() {
               id="tokenId"
               inputMode="numeric"
               pattern="[0-9]*"
-              min={MIN_TOKEN_ID}
-              max={MAX_TOKEN_ID}
-              placeholder={`Enter a token ID (${MIN_TOKEN_ID}-${MAX_TOKEN_ID})`}
+              min={minTokenId}
+              max={maxTokenId}
+              placeholder={`Enter a token ID (${minTokenId}-${maxTokenId})`}
               value={tokenInput}
               onChange={(event) => setTokenInput(event.target.value)}
               className="flex-1 rounded-lg border border-[#2a2a2a] bg-[#121212] px-4 py-3 text-white placeholder:text-[#5c5c5c] focus:border-[#B066FF] focus:outline-none focus:ring-2 focus:ring-[#B066FF]/40"
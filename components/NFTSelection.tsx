@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, Link } from 'lucide-react';
+import { getTokenImageUrl, getTokenName, type CollectionInfo } from '@/lib/collectionInfo';
 
 interface NFT {
   mintAddress: string;
@@ -18,6 +19,7 @@ interface NFT {
 }
 
 interface NFTSelectionProps {
+  collection: CollectionInfo;
   solanaAddress?: string | null;
   evmAddress?: string | null;
   verifiedNFTs?: { mintAddress: string; tokenId: string }[];
@@ -27,6 +29,7 @@ interface NFTSelectionProps {
 }
 
 export function NFTSelection({ 
+  collection,
   solanaAddress, 
   evmAddress, 
   verifiedNFTs = [],
@@ -59,7 +62,7 @@ export function NFTSelection({
     try {
       // First, fetch all NFTs linked to this EVM address from any Solana wallet
       try {
-        const profileResponse = await fetch(`/api/evm-profile?evmAddress=${evmAddress}`);
+        const profileResponse = await fetch(`/api/evm-profile?evmAddress=${evmAddress}&collection=${collection.slug}`);
         
         if (profileResponse.ok) {
           const profileData = await profileResponse.json();
@@ -68,7 +71,8 @@ export function NFTSelection({
             const linkedNFTsList: NFT[] = (profileData.data.nfts || []).map((nft: { mintAddress: string; tokenId: string; solanaAddress: string }) => ({
               mintAddress: nft.mintAddress,
               tokenId: nft.tokenId,
-              name: `Wassieverse #${nft.tokenId}`,
+              name: getTokenName(collection, nft.tokenId),
+              image: getTokenImageUrl(collection, nft.tokenId) ?? undefined,
               isLinked: true,
               linkedTo: evmAddress,
               linkedFromSolana: nft.solanaAddress
@@ -105,6 +109,7 @@ export function NFTSelection({
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ 
               tokenIds: verifiedNFTs.map(nft => nft.tokenId),
+              collection: collection.slug,
               evmAddress: evmAddress // Check if linked to this specific EVM address
             }),
           });
@@ -119,7 +124,8 @@ export function NFTSelection({
             const nftsWithStatus = verifiedNFTs.map((nft) => ({
               mintAddress: nft.mintAddress,
               tokenId: nft.tokenId,
-              name: `Wassieverse #${nft.tokenId}`,
+              name: getTokenName(collection, nft.tokenId),
+              image: getTokenImageUrl(collection, nft.tokenId) ?? undefined,
               isLinked: linkingStatuses[nft.tokenId]?.isLinked || false,
               linkedTo: linkingStatuses[nft.tokenId]?.linkedTo,
               linkedFromSolana: linkingStatuses[nft.tokenId]?.solanaAddress
@@ -155,7 +161,7 @@ export function NFTSelection({
     } finally {
       setLoading(false);
     }
-  }, [verifiedNFTs, evmAddress, solanaAddress]);
+  }, [verifiedNFTs, evmAddress, solanaAddress, collection]);
 
   // Reset status check completion when verifiedNFTs changes
   useEffect(() => {
@@ -242,7 +248,7 @@ export function NFTSelection({
         <CardContent className="p-6">
           <div className="flex items-center justify-center space-x-2">
             <Loader2 className="h-4 w-4 animate-spin" />
-            <span>Loading your Wassieverse NFTs...</span>
+            <span>Loading your {collection.name} NFTs...</span>
           </div>
         </CardContent>
       </Card>
@@ -275,7 +281,7 @@ export function NFTSelection({
         return (
           <Card className="opacity-50">
             <CardHeader>
-              <CardTitle>Your Wassieverse NFTs</CardTitle>
+              <CardTitle>Your {collection.name} NFTs</CardTitle>
             </CardHeader>
             <CardContent className="p-6">
               <div className="text-center text-[#A0A0A0] space-y-2">
@@ -290,11 +296,11 @@ export function NFTSelection({
 
   return (
     <div className={`space-y-6 ${isDisabled ? "opacity-50 pointer-events-none" : ""}`}>
-      {/* Your Wassieverse NFTs - Combined view */}
+      {/* Your collection NFTs - Combined view */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Your Wassieverse NFTs</span>
+            <span>Your {collection.name} NFTs</span>
             <div className="flex space-x-2">
                   <Badge variant="outline" className="bg-[#1a3a1a] text-[#34C759] border-[#34C759]/30">
                     {allLinkedNFTs.length} Linked
@@ -349,7 +355,7 @@ export function NFTSelection({
                             className="absolute top-2 right-2"
                           />
                           <div className="flex-1 pr-8">
-                            <h3 className="font-semibold">Wassieverse #{nft.tokenId}</h3>
+                            <h3 className="font-semibold">{getTokenName(collection, nft.tokenId)}</h3>
                             <p className="text-sm text-gray-600">Ready to link</p>
                           </div>
                               <Badge variant="outline" className="bg-[#2a1a3a] text-[#B066FF] border-[#B066FF]/50">
@@ -372,7 +378,7 @@ export function NFTSelection({
                     <div key={nft.tokenId} className="border rounded-xl p-4 bg-[#1a2a1a] border-[#34C759]/30 card-depth">
                       <div className="flex items-center justify-between">
                         <div>
-                          <h3 className="font-semibold">Wassieverse #{nft.tokenId}</h3>
+                          <h3 className="font-semibold">{getTokenName(collection, nft.tokenId)}</h3>
                               <p className="text-sm text-[#A0A0A0]">
                                 {nft.linkedFromSolana && (
                                   <span>Linked from: {nft.linkedFromSolana.slice(0, 6)}...{nft.linkedFromSolana.slice(-4)}</span>
@@ -393,14 +399,14 @@ export function NFTSelection({
             {/* Empty State - Only show if we truly have no NFTs AND no Solana wallet is verified */}
                 {allLinkedNFTs.length === 0 && verifiedNFTs.length === 0 && !loading && !solanaAddress && (
                   <div className="text-center text-[#A0A0A0] py-8">
-                    <p>No Wassieverse NFTs found.</p>
+                    <p>No {collection.name} NFTs found.</p>
                     <p className="text-sm mt-2">Connect your Solana wallet and verify NFT ownership to see your NFTs here.</p>
                   </div>
                 )}
                 {/* Show different message if wallet is verified but no NFTs */}
                 {allLinkedNFTs.length === 0 && verifiedNFTs.length === 0 && !loading && solanaAddress && (
                   <div className="text-center text-[#A0A0A0] py-8">
-                    <p>No Wassieverse NFTs found in this wallet.</p>
+                    <p>No {collection.name} NFTs found in this wallet.</p>
                     <p className="text-sm mt-2">Try connecting a different Solana wallet.</p>
                   </div>
                 )}
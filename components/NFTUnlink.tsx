@@ -0,0 +1,300 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import bs58 from "bs58";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
+import { useAccount, useSignMessage } from "wagmi";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Unlink } from "lucide-react";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { getTokenName, type CollectionInfo } from "@/lib/collectionInfo";
+import { createMemoTransaction } from "@/lib/signatures/solana/memoTransaction";
+
+interface LinkedHolding {
+  tokenId: string;
+  linkedTo?: string;
+  solanaAddress?: string;
+}
+
+interface Verification {
+  solanaAddress: string;
+  collection: string;
+  token: string;
+  tokenIds: string[];
+}
+
+interface ResultState {
+  type: "success" | "error";
+  message: string;
+}
+
+function shortenAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+  if (address.length <= 10) return address;
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({ error: "Unexpected response from server." }));
+
+  if (!response.ok) {
+    throw new Error(data.error ?? "Request failed");
+  }
+  return data;
+}
+
+/**
+ * Lets the current holder of a linked NFT release it or relink it to another
+ * EVM address (e.g. after buying an NFT that the previous owner had linked).
+ */
+interface NFTUnlinkProps {
+  collection: CollectionInfo;
+}
+
+export function NFTUnlink({ collection }: NFTUnlinkProps) {
+  const { publicKey, signMessage, signTransaction } = useWallet();
+  const { address: connectedEvmAddress } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [holdings, setHoldings] = useState<LinkedHolding[]>([]);
+  const [selectedTokenIds, setSelectedTokenIds] = useState<string[]>([]);
+  const [relinkAddress, setRelinkAddress] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  // Hardware wallets (Ledger) can't sign messages - they sign a memo transaction instead
+  const [useTransactionProof, setUseTransactionProof] = useState(false);
+  const [result, setResult] = useState<ResultState | null>(null);
+
+  const solanaAddress = publicKey?.toBase58() ?? null;
+  // A verification only covers the collection it was made for
+  const isVerified =
+    verification !== null &&
+    verification.solanaAddress === solanaAddress &&
+    verification.collection === collection.slug;
+
+  const loadHoldings = useCallback(async (tokenIds: string[]) => {
+    const { statuses } = await postJson(API_ENDPOINTS.NFT_STATUS, { tokenIds, collection: collection.slug });
+    const linked: LinkedHolding[] = tokenIds
+      .filter(tokenId => statuses?.[tokenId]?.isLinked)
+      .map(tokenId => ({
+        tokenId,
+        linkedTo: statuses[tokenId].linkedTo,
+        solanaAddress: statuses[tokenId].solanaAddress,
+      }));
+
+    setHoldings(linked);
+    setSelectedTokenIds([]);
+  }, [collection.slug]);
+
+  // Prove Solana key ownership (nonce -> SIWS signature or signed memo transaction
+  // -> verify-solana session token)
+  const handleVerify = useCallback(async () => {
+    const signWithTransaction = useTransactionProof || !signMessage;
+    if (!solanaAddress || (signWithTransaction ? !signTransaction : !signMessage)) {
+      setResult({ type: "error", message: "Connect a Solana wallet that supports message or transaction signing." });
+      return;
+    }
+
+    setIsBusy(true);
+    setResult(null);
+
+    try {
+      const { nonce, message, memo } = await postJson(API_ENDPOINTS.NONCE, { address: solanaAddress });
+
+      let proof: { signature: string; message: string } | { signedTransaction: string };
+      if (signWithTransaction) {
+        // Signed but never sent - verify-solana only checks the signature and the memo
+        const signed = await signTransaction!(createMemoTransaction(solanaAddress, memo));
+        proof = { signedTransaction: Buffer.from(signed.serialize()).toString("base64") };
+      } else {
+        const signature = await signMessage!(new TextEncoder().encode(message));
+        proof = { signature: bs58.encode(signature), message };
+      }
+
+      const data = await postJson(API_ENDPOINTS.VERIFY_SOLANA, {
+        solAddress: solanaAddress,
+        nonce,
+        collection: collection.slug,
+        ...proof,
+      });
+
+      setVerification({
+        solanaAddress,
+        collection: collection.slug,
+        token: data.verificationToken,
+        tokenIds: data.tokenIds,
+      });
+      await loadHoldings(data.tokenIds);
+    } catch (error) {
+      console.error("Error verifying Solana wallet:", error);
+      setResult({
+        type: "error",
+        message: error instanceof Error ? error.message : "Failed to verify Solana wallet.",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [solanaAddress, signMessage, signTransaction, useTransactionProof, loadHoldings, collection.slug]);
+
+  const handleSubmit = useCallback(
+    async (action: "unlink" | "relink") => {
+      if (!verification || selectedTokenIds.length === 0) return;
+
+      const evmAddress = relinkAddress.trim();
+      if (action === "relink" && !evmAddress) {
+        setResult({ type: "error", message: "Enter the EVM address to relink to." });
+        return;
+      }
+
+      setIsBusy(true);
+      setResult(null);
+
+      try {
+        // Sign in with the target EVM wallet when it's the one connected -
+        // required unless that address has been linked before
+        let evmProof: { evmSignature: string; message: string } | null = null;
+        if (
+          action === "relink" &&
+          connectedEvmAddress &&
+          connectedEvmAddress.toLowerCase() === evmAddress.toLowerCase()
+        ) {
+          const { message } = await postJson(API_ENDPOINTS.NONCE, { address: connectedEvmAddress });
+          const evmSignature = await signMessageAsync({ message });
+          evmProof = { evmSignature, message };
+        }
+
+        const data = await postJson(API_ENDPOINTS.UNLINK, {
+          solanaAddress: verification.solanaAddress,
+          verificationToken: verification.token,
+          tokenIds: selectedTokenIds,
+          collection: verification.collection,
+          action,
+          ...(action === "relink" ? { evmAddress, ...evmProof } : {}),
+        });
+
+        setResult({ type: "success", message: data.message });
+        await loadHoldings(verification.tokenIds);
+      } catch (error) {
+        console.error(`Error during ${action}:`, error);
+        setResult({
+          type: "error",
+          message: error instanceof Error ? error.message : `Failed to ${action} NFTs.`,
+        });
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [verification, selectedTokenIds, relinkAddress, connectedEvmAddress, signMessageAsync, loadHoldings]
+  );
+
+  const toggleSelection = (tokenId: string, checked: boolean) => {
+    setSelectedTokenIds(current =>
+      checked ? [...current, tokenId] : current.filter(id => id !== tokenId)
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-2xl">Manage Linked NFTs</CardTitle>
+        <p className="text-sm text-[#A0A0A0]">
+          Bought an NFT that was linked by its previous owner? Verify your Solana wallet to unlink it or relink it to your EVM address.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <WalletMultiButton className="!bg-[#8A2BE2] !text-white hover:!bg-[#9B3DF3] !h-10 !px-4 !rounded-xl !text-sm !font-medium" />
+          {solanaAddress && !isVerified && (
+            <Button onClick={handleVerify} disabled={isBusy}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify Ownership
+            </Button>
+          )}
+        </div>
+
+        {solanaAddress && !isVerified && (
+          <label className="flex items-center gap-2 text-sm text-[#A0A0A0]">
+            <Checkbox
+              checked={useTransactionProof || !signMessage}
+              disabled={!signMessage}
+              onCheckedChange={checked => setUseTransactionProof(checked as boolean)}
+            />
+            Using a Ledger? Sign a transaction instead (it is never sent)
+          </label>
+        )}
+
+        {isVerified && holdings.length === 0 && (
+          <p className="text-sm text-[#A0A0A0]">None of the NFTs in this wallet are linked.</p>
+        )}
+
+        {isVerified && holdings.length > 0 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {holdings.map(holding => (
+                <label
+                  key={holding.tokenId}
+                  className="flex items-center gap-3 rounded-xl border border-[#34C759]/30 bg-[#1a2a1a] p-3"
+                >
+                  <Checkbox
+                    checked={selectedTokenIds.includes(holding.tokenId)}
+                    onCheckedChange={checked => toggleSelection(holding.tokenId, checked as boolean)}
+                  />
+                  <div>
+                    <p className="font-semibold">{getTokenName(collection, holding.tokenId)}</p>
+                    <p className="text-xs text-[#A0A0A0]">
+                      Linked to {shortenAddress(holding.linkedTo)}
+                      {holding.solanaAddress !== verification.solanaAddress && " by a previous owner"}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                placeholder={connectedEvmAddress ?? "New EVM address (0x...)"}
+                value={relinkAddress}
+                onChange={event => setRelinkAddress(event.target.value)}
+                className="flex-1 rounded-lg border border-[#2a2a2a] bg-[#121212] px-4 py-2 text-white placeholder:text-[#5c5c5c] focus:border-[#B066FF] focus:outline-none focus:ring-2 focus:ring-[#B066FF]/40"
+              />
+              <Button
+                onClick={() => handleSubmit("relink")}
+                disabled={isBusy || selectedTokenIds.length === 0}
+              >
+                Relink
+              </Button>
+              <Button
+                onClick={() => handleSubmit("unlink")}
+                disabled={isBusy || selectedTokenIds.length === 0}
+                variant="outline"
+              >
+                <Unlink className="mr-2 h-4 w-4" />
+                Unlink
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div
+            className={`rounded-lg border px-4 py-3 text-sm ${
+              result.type === "success"
+                ? "border-[#34C759]/40 bg-[#112412] text-[#d4f7d9]"
+                : "border-red-500/40 bg-[#2a1111] text-red-300"
+            }`}
+          >
+            {result.message}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,8 +14,10 @@ import {
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { CheckCircle2, Loader2 } from "lucide-react";
+import type { CollectionInfo } from "@/lib/collectionInfo";
 
 interface SolanaWalletConnectorProps {
+  collection: CollectionInfo;
   evmAddress: string | null;
   onVerified: (data: {
     solAddress: string;
@@ -27,7 +29,7 @@ interface SolanaWalletConnectorProps {
   }) => void;
 }
 
-export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletConnectorProps) {
+export function SolanaWalletConnector({ collection, evmAddress, onVerified }: SolanaWalletConnectorProps) {
   const { publicKey, connected, disconnect } = useWallet();
   const { toast } = useToast();
   const [isVerifying, setIsVerifying] = useState(false);
@@ -97,6 +99,7 @@ export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletCo
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           solAddress,
+          collection: collection.slug,
         }),
       });
 
@@ -105,7 +108,7 @@ export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletCo
       if (!checkResponse.ok) {
         const errorMsg = checkData.error || "Failed to check NFTs";
         // Don't show error toast if no NFTs found - that's normal
-        if (errorMsg.includes("No Wassieverse NFTs")) {
+        if (errorMsg.includes(`No ${collection.name} NFTs`)) {
           setIsVerified(false);
           setNftCount(0);
           onVerified({
@@ -139,7 +142,7 @@ export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletCo
         if (checkData.tokenIds.length > 0) {
           toast({
             title: "NFTs found!",
-            description: `Found ${checkData.tokenIds.length} Wassieverse NFT(s) in this wallet`,
+            description: `Found ${checkData.tokenIds.length} ${collection.name} NFT(s) in this wallet`,
           });
         }
 
@@ -168,7 +171,7 @@ export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletCo
             <CardDescription className="text-[#A0A0A0]">
               {disabled
                 ? "Complete Step 1 first - connect your EVM wallet"
-                : "Connect your Solana wallet (Phantom, Ledger, etc.) to view your Wassieverse NFTs"}
+                : `Connect your Solana wallet (Phantom, Ledger, etc.) to view your ${collection.name} NFTs`}
             </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -205,7 +208,7 @@ export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletCo
           {isVerified && nftCount !== null && nftCount > 0 && (
             <div className="bg-[#1a3a1a] border border-[#34C759]/30 rounded-xl p-4 inner-glow">
               <p className="text-sm text-[#34C759] font-semibold">
-                ✓ Found {nftCount} Wassieverse NFT{nftCount !== 1 ? "s" : ""} in this wallet
+                ✓ Found {nftCount} {collection.name} NFT{nftCount !== 1 ? "s" : ""} in this wallet
               </p>
             </div>
           )}
@@ -213,7 +216,7 @@ export function SolanaWalletConnector({ evmAddress, onVerified }: SolanaWalletCo
           {isVerified && nftCount === 0 && (
             <div className="bg-[#2a1a3a] border border-[#B066FF]/30 rounded-xl p-4">
               <p className="text-sm text-[#A0A0A0]">
-                No Wassieverse NFTs found in this wallet
+                No {collection.name} NFTs found in this wallet
               </p>
             </div>
           )}
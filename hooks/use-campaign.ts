@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CampaignStatus } from "@/lib/campaign";
+import { API_ENDPOINTS } from "@/lib/constants";
+
+interface CampaignResponse {
+  success: boolean;
+  data?: CampaignStatus;
+  error?: string;
+}
+
+// Re-check periodically so the page follows the window opening or closing
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Linking window of a collection as reported by /api/campaign
+ */
+export function useCampaign(collectionSlug: string | null) {
+  const [campaign, setCampaign] = useState<CampaignStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!collectionSlug) {
+      setCampaign(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadCampaign = async () => {
+      try {
+        const response = await fetch(`${API_ENDPOINTS.CAMPAIGN}?collection=${encodeURIComponent(collectionSlug)}`);
+        const data: CampaignResponse = await response.json();
+
+        if (!response.ok || !data.success || !data.data) {
+          throw new Error(data.error ?? "Failed to load campaign status");
+        }
+        if (!cancelled) {
+          setCampaign(data.data);
+        }
+      } catch (err) {
+        console.error("Error loading campaign status:", err);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    setIsLoading(true);
+    setCampaign(null);
+    loadCampaign();
+    const interval = setInterval(loadCampaign, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [collectionSlug]);
+
+  return { campaign, isLoading };
+}
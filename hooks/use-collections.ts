@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CollectionInfo } from "@/lib/collectionInfo";
+import { API_ENDPOINTS } from "@/lib/constants";
+
+interface CollectionsResponse {
+  success: boolean;
+  data?: {
+    defaultCollection: string;
+    collections: CollectionInfo[];
+  };
+  error?: string;
+}
+
+/**
+ * Loads the collections from /api/collections and keeps the selected one in
+ * the ?collection= query parameter, so a campaign can be linked to directly
+ */
+export function useCollections() {
+  const [collections, setCollections] = useState<CollectionInfo[]>([]);
+  const [selectedSlug, setSelectedSlug] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCollections = async () => {
+      try {
+        const response = await fetch(API_ENDPOINTS.COLLECTIONS);
+        const data: CollectionsResponse = await response.json();
+
+        if (!response.ok || !data.success || !data.data) {
+          throw new Error(data.error ?? "Failed to load collections");
+        }
+        if (cancelled) return;
+
+        const requested = new URLSearchParams(window.location.search).get("collection")?.toLowerCase();
+        const slugs = data.data.collections.map(collection => collection.slug);
+
+        setCollections(data.data.collections);
+        setSelectedSlug(
+          requested && slugs.includes(requested)
+            ? requested
+            : slugs.includes(data.data.defaultCollection)
+              ? data.data.defaultCollection
+              : slugs[0] ?? null
+        );
+      } catch (err) {
+        console.error("Error loading collections:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load collections");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadCollections();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectCollection = useCallback((slug: string) => {
+    setSelectedSlug(slug);
+
+    const url = new URL(window.location.href);
+    url.searchParams.set("collection", slug);
+    window.history.replaceState(null, "", url.toString());
+  }, []);
+
+  return {
+    collections,
+    collection: collections.find(collection => collection.slug === selectedSlug) ?? null,
+    selectCollection,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ADMIN_API_KEY_PREFIX,
+  generateAdminApiKey,
+  hasAdminRole,
+  hashAdminApiKey,
+  isAdminRole,
+  type AdminRole,
+} from "@/lib/adminRoles";
+import { createAdminSessionToken, createVerificationToken } from "@/lib/session";
+
+const prisma = vi.hoisted(() => ({
+  adminApiKey: { findUnique: vi.fn(), update: vi.fn() },
+  adminWallet: { findUnique: vi.fn() },
+}));
+vi.mock("@/lib/prisma", () => ({ prisma }));
+
+const { withAdminAuth } = await import("@/lib/adminAuth");
+
+const ADMIN_WALLET = "0xd8da6bf26964af9d7eed9e10c46ba1a5f2ea2b27";
+
+function request(authorization?: string) {
+  return new NextRequest("http://localhost/api/admin/wallet-summary", {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+function apiKeyRecord(key: string, overrides: { role?: string; revokedAt?: Date | null } = {}) {
+  return {
+    id: "key-1",
+    name: "CI export",
+    keyHash: hashAdminApiKey(key),
+    role: "operator",
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe("admin roles", () => {
+  it.each<[AdminRole, AdminRole, boolean]>([
+    ["viewer", "viewer", true],
+    ["viewer", "operator", false],
+    ["viewer", "owner", false],
+    ["operator", "viewer", true],
+    ["operator", "operator", true],
+    ["operator", "owner", false],
+    ["owner", "viewer", true],
+    ["owner", "operator", true],
+    ["owner", "owner", true],
+  ])("%s has the %s role: %s", (role, required, expected) => {
+    expect(hasAdminRole(role, required)).toBe(expected);
+  });
+
+  it.each([
+    ["viewer", true],
+    ["owner", true],
+    ["admin", false],
+    ["Owner", false],
+    [undefined, false],
+  ])("recognises %j as a role: %s", (value, expected) => {
+    expect(isAdminRole(value)).toBe(expected);
+  });
+});
+
+describe("generateAdminApiKey", () => {
+  it("returns a prefixed key with its hash and display prefix", () => {
+    const { key, keyHash, keyPrefix } = generateAdminApiKey();
+
+    expect(key.startsWith(ADMIN_API_KEY_PREFIX)).toBe(true);
+    expect(keyHash).toBe(hashAdminApiKey(key));
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(keyPrefix.length).toBeLessThan(key.length);
+  });
+
+  it("never returns the same key twice", () => {
+    expect(generateAdminApiKey().key).not.toBe(generateAdminApiKey().key);
+  });
+});
+
+describe("withAdminAuth", () => {
+  const handler = vi.fn(async () => NextResponse.json({ success: true }));
+  const viewerRoute = withAdminAuth("viewer", handler);
+  const operatorRoute = withAdminAuth("operator", handler);
+
+  beforeEach(() => {
+    vi.stubEnv("SESSION_SECRET", "test-session-secret");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    handler.mockClear();
+    prisma.adminApiKey.findUnique.mockReset();
+    prisma.adminApiKey.update.mockReset();
+    prisma.adminWallet.findUnique.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("answers 401 without credentials", async () => {
+    const response = await viewerRoute(request());
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toBe('Bearer realm="admin"');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("accepts an API key and records its use", async () => {
+    const { key } = generateAdminApiKey();
+    prisma.adminApiKey.findUnique.mockResolvedValue(apiKeyRecord(key));
+
+    const response = await operatorRoute(request(`Bearer ${key}`));
+
+    expect(response.status).toBe(200);
+    expect(prisma.adminApiKey.findUnique).toHaveBeenCalledWith({ where: { keyHash: hashAdminApiKey(key) } });
+    expect(prisma.adminApiKey.update).toHaveBeenCalledWith({
+      where: { id: "key-1" },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+    expect(handler).toHaveBeenCalledWith(expect.any(NextRequest), {
+      type: "api-key",
+      id: "key-1",
+      name: "CI export",
+      role: "operator",
+    });
+  });
+
+  it.each([
+    ["an unknown API key", null],
+    ["a revoked API key", { revokedAt: new Date() }],
+    ["an API key with an unknown role", { role: "superuser" }],
+  ])("answers 401 for %s", async (_case, overrides) => {
+    const { key } = generateAdminApiKey();
+    prisma.adminApiKey.findUnique.mockResolvedValue(overrides && apiKeyRecord(key, overrides));
+
+    const response = await viewerRoute(request(`Bearer ${key}`));
+
+    expect(response.status).toBe(401);
+    expect(prisma.adminApiKey.update).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("answers 403 when the role is too low", async () => {
+    const { key } = generateAdminApiKey();
+    prisma.adminApiKey.findUnique.mockResolvedValue(apiKeyRecord(key, { role: "viewer" }));
+
+    const response = await operatorRoute(request(`Bearer ${key}`));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ requiredRole: "operator" });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("accepts an admin session and reads the wallet's current role", async () => {
+    const { token } = createAdminSessionToken(ADMIN_WALLET);
+    prisma.adminWallet.findUnique.mockResolvedValue({ address: ADMIN_WALLET, name: "Ops", role: "owner" });
+
+    const response = await operatorRoute(request(`Bearer ${token}`));
+
+    expect(response.status).toBe(200);
+    expect(prisma.adminWallet.findUnique).toHaveBeenCalledWith({ where: { address: ADMIN_WALLET } });
+    expect(handler).toHaveBeenCalledWith(expect.any(NextRequest), {
+      type: "wallet",
+      id: ADMIN_WALLET,
+      name: "Ops",
+      role: "owner",
+    });
+  });
+
+  it("answers 401 for a session of a wallet that is no longer an admin", async () => {
+    const { token } = createAdminSessionToken(ADMIN_WALLET);
+    prisma.adminWallet.findUnique.mockResolvedValue(null);
+
+    expect((await viewerRoute(request(`Bearer ${token}`))).status).toBe(401);
+  });
+
+  it("answers 401 for a link-evm verification token", async () => {
+    const { token } = createVerificationToken({
+      solanaAddress: "3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf",
+      collectionId: "collection-id",
+      nfts: [],
+      method: "raw",
+    });
+
+    const response = await viewerRoute(request(`Bearer ${token}`));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: "Admin session audience mismatch" });
+    expect(prisma.adminWallet.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { createCache, createMemoryCacheBackend, type CacheBackend } from "@/lib/cache";
+
+function fakeClock(start = 1_000_000) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+/** Memory backend that fails every call while `down` is set */
+function flakyBackend(name: string) {
+  const backend = createMemoryCacheBackend();
+  const state = { down: false };
+  const guard = <T>(fn: () => Promise<T>) => (state.down ? Promise.reject(new Error(`${name} down`)) : fn());
+
+  const flaky: CacheBackend = {
+    name,
+    get: key => guard(() => backend.get(key)),
+    set: (key, value, ttl) => guard(() => backend.set(key, value, ttl)),
+    delete: key => guard(() => backend.delete(key)),
+  };
+  return { backend: flaky, state };
+}
+
+describe("createMemoryCacheBackend", () => {
+  it("returns stored values and null for unknown keys", async () => {
+    const backend = createMemoryCacheBackend();
+    await backend.set("a", "1");
+
+    expect(await backend.get("a")).toBe("1");
+    expect(await backend.get("b")).toBeNull();
+  });
+
+  it("expires entries after their TTL", async () => {
+    const clock = fakeClock();
+    const backend = createMemoryCacheBackend(10, clock.now);
+    await backend.set("short", "1", 30);
+    await backend.set("forever", "2");
+
+    clock.advance(29_999);
+    expect(await backend.get("short")).toBe("1");
+
+    clock.advance(1);
+    expect(await backend.get("short")).toBeNull();
+    expect(await backend.get("forever")).toBe("2");
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const backend = createMemoryCacheBackend(3);
+    await backend.set("a", "1");
+    await backend.set("b", "2");
+    await backend.set("c", "3");
+
+    // Reading "a" makes "b" the oldest
+    await backend.get("a");
+    await backend.set("d", "4");
+
+    expect(await backend.get("b")).toBeNull();
+    expect(await backend.get("a")).toBe("1");
+    expect(await backend.get("c")).toBe("3");
+    expect(await backend.get("d")).toBe("4");
+  });
+
+  it("refreshes an entry's position and TTL when it is set again", async () => {
+    const clock = fakeClock();
+    const backend = createMemoryCacheBackend(2, clock.now);
+    await backend.set("a", "1", 10);
+    await backend.set("b", "2");
+    await backend.set("a", "updated", 60);
+    await backend.set("c", "3");
+
+    clock.advance(30_000);
+    expect(await backend.get("a")).toBe("updated");
+    expect(await backend.get("b")).toBeNull();
+  });
+
+  it("deletes entries", async () => {
+    const backend = createMemoryCacheBackend();
+    await backend.set("a", "1");
+    await backend.delete("a");
+
+    expect(await backend.get("a")).toBeNull();
+  });
+});
+
+describe("createCache", () => {
+  it("counts hits and misses per backend", async () => {
+    const cache = createCache({
+      primary: createMemoryCacheBackend(),
+      fallback: { ...createMemoryCacheBackend(), name: "fallback" },
+      isPrimaryAvailable: () => true,
+    });
+
+    expect(cache.stats().hitRate).toBeNull();
+
+    await cache.set("a", "1");
+    await cache.get("a");
+    await cache.get("a");
+    await cache.get("missing");
+
+    expect(cache.stats()).toEqual({
+      backend: "memory",
+      hitRate: 0.667,
+      backends: {
+        memory: { hits: 2, misses: 1, sets: 1, deletes: 0, errors: 0 },
+        fallback: { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0 },
+      },
+    });
+  });
+
+  it("uses the fallback while the primary is unavailable", async () => {
+    let available = false;
+    const primary = createMemoryCacheBackend();
+    const fallback = { ...createMemoryCacheBackend(), name: "fallback" };
+    const cache = createCache({ primary, fallback, isPrimaryAvailable: () => available });
+
+    await cache.set("a", "1");
+    expect(await fallback.get("a")).toBe("1");
+    expect(await primary.get("a")).toBeNull();
+    expect(cache.stats().backend).toBe("fallback");
+
+    available = true;
+    expect(await cache.get("a")).toBeNull();
+    expect(cache.stats().backend).toBe("memory");
+  });
+
+  it("retries a failing primary call on the fallback and counts the error", async () => {
+    const primary = flakyBackend("redis");
+    const fallback = createMemoryCacheBackend();
+    const cache = createCache({ primary: primary.backend, fallback, isPrimaryAvailable: () => true });
+
+    primary.state.down = true;
+    expect(await cache.set("a", "1", 60)).toBe(true);
+    expect(await cache.get("a")).toBe("1");
+
+    expect(cache.stats().backends).toEqual({
+      redis: { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 2 },
+      memory: { hits: 1, misses: 0, sets: 1, deletes: 0, errors: 0 },
+    });
+  });
+
+  it("reports failures of the fallback as a miss or a failed write", async () => {
+    const primary = flakyBackend("redis");
+    const fallback = flakyBackend("memory");
+    const cache = createCache({ primary: primary.backend, fallback: fallback.backend, isPrimaryAvailable: () => false });
+
+    fallback.state.down = true;
+    expect(await cache.set("a", "1")).toBe(false);
+    expect(await cache.get("a")).toBeNull();
+    expect(cache.stats().backends.memory.errors).toBe(2);
+  });
+
+  it("deletes from both backends so an entry doesn't come back with the primary", async () => {
+    let available = true;
+    const primary = { ...createMemoryCacheBackend(), name: "redis" };
+    const fallback = createMemoryCacheBackend();
+    const cache = createCache({ primary, fallback, isPrimaryAvailable: () => available });
+
+    await primary.set("a", "1");
+    await fallback.set("a", "1");
+
+    expect(await cache.delete("a")).toBe(true);
+    expect(await primary.get("a")).toBeNull();
+    expect(await fallback.get("a")).toBeNull();
+
+    // Only the fallback is reachable while the primary is down
+    available = false;
+    await fallback.set("b", "2");
+    expect(await cache.delete("b")).toBe(true);
+    expect(cache.stats().backends).toMatchObject({ redis: { deletes: 1 }, memory: { deletes: 2 } });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { keccak256 } from "viem";
+import {
+  BUBBLEGUM_PROGRAM_ID,
+  computeCreatorHash,
+  computeDataHash,
+  computeLeafHash,
+  computeMerkleRoot,
+  verifyCompressedAssetProof,
+} from "@/lib/compression";
+import type { DasAsset, DasAssetProof } from "@/lib/das";
+
+const OWNER = "3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf";
+const COLLECTION = "J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w";
+const OTHER_COLLECTION = "SMBtHCCC6RYRutFEPb4gZqeBLUZbMNhRKaMKZZLHi7W";
+const TREE = "5Fw2cQ3u6W3ZsXr9JyHn6Bp8Kd1Tg4Vs7aLm2NqEo9Rx";
+const LEAF_INDEX = 5;
+const TREE_DEPTH = 3;
+
+const CREATORS = [
+  { address: "7EYnhQoR9YM3N7UoaKRoA44Uy8JeaZV3qyouov87awMs", share: 60, verified: true },
+  { address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", share: 40, verified: false },
+];
+
+// hashMetadataData of @metaplex-foundation/mpl-bubblegum for compressedAsset() with COLLECTION verified
+const BUBBLEGUM_DATA_HASH = "939e09a8933aadf1c4bf92fdbebc743e73124432fe3b1423fc6d57edb4813ec9";
+
+function leafAssetId(tree: string, leafIndex: number): string {
+  const nonce = Buffer.alloc(8);
+  nonce.writeBigUInt64LE(BigInt(leafIndex));
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("asset"), new PublicKey(tree).toBuffer(), nonce],
+    BUBBLEGUM_PROGRAM_ID
+  )[0].toBase58();
+}
+
+function compressedAsset(overrides: Partial<DasAsset> = {}): DasAsset {
+  return {
+    interface: "V1_NFT",
+    id: leafAssetId(TREE, LEAF_INDEX),
+    content: {
+      json_uri: "https://example.com/1.json",
+      metadata: { name: "Héllo #1", symbol: "HEL" },
+    },
+    grouping: [{ group_key: "collection", group_value: COLLECTION, verified: true }],
+    compression: {
+      compressed: true,
+      tree: TREE,
+      leaf_id: LEAF_INDEX,
+      data_hash: "11111111111111111111111111111111",
+      creator_hash: "11111111111111111111111111111111",
+    },
+    ownership: { owner: OWNER, delegate: null },
+    royalty: { basis_points: 550, primary_sale_happened: true },
+    creators: CREATORS,
+    supply: { edition_nonce: 254 },
+    mutable: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a tree of depth TREE_DEPTH holding `asset` (its metadata naming
+ * `collection`) at LEAF_INDEX, and returns the proof and on-chain root for it
+ */
+function treeFor(asset: DasAsset, collection: string) {
+  const leaf = computeLeafHash({
+    assetId: asset.id,
+    owner: OWNER,
+    delegate: OWNER,
+    nonce: LEAF_INDEX,
+    dataHash: computeDataHash(asset, collection)!,
+    creatorHash: computeCreatorHash(CREATORS),
+  });
+  const siblings = Array.from({ length: TREE_DEPTH }, (_, level) => keccak256(new Uint8Array([level]), "bytes"));
+  const root = computeMerkleRoot(leaf, siblings, LEAF_INDEX);
+
+  const proof: DasAssetProof = {
+    root: bs58.encode(root),
+    proof: siblings.map(sibling => bs58.encode(sibling)),
+    node_index: 2 ** TREE_DEPTH + LEAF_INDEX,
+    leaf: bs58.encode(leaf),
+    tree_id: TREE,
+  };
+  return { proof, tree: { maxDepth: TREE_DEPTH, root } };
+}
+
+describe("computeDataHash", () => {
+  it("matches Bubblegum's data hash for the metadata with the collection verified", () => {
+    const dataHash = computeDataHash(compressedAsset(), COLLECTION);
+
+    expect(Buffer.from(dataHash!).toString("hex")).toBe(BUBBLEGUM_DATA_HASH);
+  });
+
+  it("commits to the collection", () => {
+    const asset = compressedAsset();
+
+    expect(computeDataHash(asset, OTHER_COLLECTION)).not.toEqual(computeDataHash(asset, COLLECTION));
+  });
+
+  it("returns null when the indexer leaves out a hashed field", () => {
+    expect(computeDataHash(compressedAsset({ royalty: undefined }), COLLECTION)).toBeNull();
+    expect(computeDataHash(compressedAsset({ mutable: undefined }), COLLECTION)).toBeNull();
+    expect(computeDataHash(compressedAsset({ creators: undefined }), COLLECTION)).toBeNull();
+  });
+});
+
+describe("computeCreatorHash", () => {
+  it("hashes each creator's address, verified flag and share", () => {
+    const expected = keccak256(
+      Buffer.concat([
+        new PublicKey(CREATORS[0].address).toBuffer(), Buffer.from([1, 60]),
+        new PublicKey(CREATORS[1].address).toBuffer(), Buffer.from([0, 40]),
+      ]),
+      "bytes"
+    );
+
+    expect(computeCreatorHash(CREATORS)).toEqual(expected);
+  });
+});
+
+describe("verifyCompressedAssetProof", () => {
+  it("accepts a leaf whose metadata names the collection, ignoring the indexer's hashes", () => {
+    const asset = compressedAsset();
+    const { proof, tree } = treeFor(asset, COLLECTION);
+
+    expect(verifyCompressedAssetProof(asset, OWNER, COLLECTION, proof, tree)).toBe(true);
+  });
+
+  it("rejects an asset the indexer relabels into the collection", () => {
+    const asset = compressedAsset();
+    const { proof, tree } = treeFor(asset, OTHER_COLLECTION);
+
+    expect(verifyCompressedAssetProof(asset, OWNER, COLLECTION, proof, tree)).toBe(false);
+  });
+
+  it("rejects metadata that differs from the leaf", () => {
+    const { proof, tree } = treeFor(compressedAsset(), COLLECTION);
+    const asset = compressedAsset({
+      content: { json_uri: "https://example.com/1.json", metadata: { name: "Héllo #2", symbol: "HEL" } },
+    });
+
+    expect(verifyCompressedAssetProof(asset, OWNER, COLLECTION, proof, tree)).toBe(false);
+  });
+
+  it("rejects another owner", () => {
+    const asset = compressedAsset();
+    const { proof, tree } = treeFor(asset, COLLECTION);
+
+    expect(verifyCompressedAssetProof(asset, CREATORS[0].address, COLLECTION, proof, tree)).toBe(false);
+  });
+
+  it("rejects a proof against a stale root", () => {
+    const asset = compressedAsset();
+    const { proof } = treeFor(asset, COLLECTION);
+    const stale = { maxDepth: TREE_DEPTH, root: new Uint8Array(32) };
+
+    expect(verifyCompressedAssetProof(asset, OWNER, COLLECTION, proof, stale)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ProviderRequestError } from "@/lib/errors";
+import {
+  DAS_PAGE_LIMIT,
+  groupAssetsByCollection,
+  searchAssetsByCollection,
+  type DasAsset,
+} from "@/lib/das";
+import { fullPage, loadDasFixture, startMockDasServer, type MockDasServer } from "./fixtures/mockDasServer";
+
+const OWNER = "3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf";
+const COLLECTION = "J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w";
+
+let das: MockDasServer;
+
+beforeAll(async () => {
+  das = await startMockDasServer();
+  // Read when lib/solanaProvider builds its providers on the first call
+  process.env.HELIUS_DAS_URL = das.url;
+  delete process.env.HELIUS_API_KEY;
+});
+
+afterAll(async () => {
+  await das.close();
+});
+
+beforeEach(() => {
+  das.requests.length = 0;
+});
+
+function asset(id: string, grouping: DasAsset["grouping"]): DasAsset {
+  return { id, interface: "V1_NFT", grouping, ownership: { owner: OWNER } };
+}
+
+describe("searchAssetsByCollection", () => {
+  it("follows pages until a short page", async () => {
+    das.respond(({ params }) =>
+      params.page === 1 ? fullPage("searchAssets-page-1", DAS_PAGE_LIMIT) : { body: loadDasFixture("searchAssets-page-2") }
+    );
+
+    const assets = await searchAssetsByCollection(OWNER, COLLECTION);
+
+    expect(assets).toHaveLength(DAS_PAGE_LIMIT + 2);
+    expect(assets.map(asset => asset.id)).toEqual(
+      expect.arrayContaining([
+        "7Xf5JB2Sa2dBvDvJ2WmhgY3yPfLqV1R7hVn7mB8yTqQk",
+        "9pW1Jb6KqkJqR8Yx3sC3oS4ZbL8gA2qXr5wH1vT6nU7e",
+        "4kqGm5nZ1bXv2C8wQxTz6pJ3rHd7sYfL9aNe2uRtWc5B",
+      ])
+    );
+    expect(das.requests.map(request => request.params.page)).toEqual([1, 2]);
+    expect(das.requests[0]).toMatchObject({
+      method: "searchAssets",
+      params: {
+        ownerAddress: OWNER,
+        grouping: ["collection", COLLECTION],
+        burnt: false,
+        limit: DAS_PAGE_LIMIT,
+        options: { showUnverifiedCollections: true },
+      },
+    });
+  });
+
+  it("stops after a single short page", async () => {
+    das.respond(() => ({ body: loadDasFixture("searchAssets-page-1") }));
+
+    const assets = await searchAssetsByCollection(OWNER, COLLECTION);
+
+    expect(assets).toHaveLength(2);
+    expect(das.requests).toHaveLength(1);
+  });
+
+  it("fails instead of truncating past MAX_PAGES", async () => {
+    das.respond(() => fullPage("searchAssets-page-1", DAS_PAGE_LIMIT));
+
+    await expect(searchAssetsByCollection(OWNER, COLLECTION)).rejects.toThrow(
+      "DAS searchAssets returned more than 50 pages"
+    );
+    expect(das.requests).toHaveLength(50);
+  });
+
+  it("reports JSON-RPC request errors as ProviderRequestError", async () => {
+    das.respond(() => ({
+      body: { jsonrpc: "2.0", id: "searchAssets", error: { code: -32602, message: "Invalid params: ownerAddress" } },
+    }));
+
+    await expect(searchAssetsByCollection("not-an-address", COLLECTION)).rejects.toBeInstanceOf(ProviderRequestError);
+  });
+});
+
+describe("groupAssetsByCollection", () => {
+  it("groups recorded assets by their verified collection only", () => {
+    const assets = [
+      ...loadDasFixture("searchAssets-page-1").result.items,
+      ...loadDasFixture("searchAssets-page-2").result.items,
+    ];
+
+    const groups = groupAssetsByCollection(assets);
+
+    expect(groups.get(COLLECTION)?.map(asset => asset.id)).toEqual([
+      "7Xf5JB2Sa2dBvDvJ2WmhgY3yPfLqV1R7hVn7mB8yTqQk",
+      "9pW1Jb6KqkJqR8Yx3sC3oS4ZbL8gA2qXr5wH1vT6nU7e",
+      "4kqGm5nZ1bXv2C8wQxTz6pJ3rHd7sYfL9aNe2uRtWc5B",
+    ]);
+    expect(groups.get(null)?.map(asset => asset.id)).toEqual(["2bNf6Vq9Xk3Lr8Tz5Yc1Wm7Hd4Jp6Sg2Ea9Ku3Rt5Bx8"]);
+  });
+
+  it("treats a missing verified flag as unverified", () => {
+    const groups = groupAssetsByCollection([
+      asset("flagless", [{ group_key: "collection", group_value: COLLECTION }]),
+      asset("ungrouped", []),
+    ]);
+
+    expect(groups.get(COLLECTION)).toBeUndefined();
+    expect(groups.get(null)?.map(asset => asset.id)).toEqual(["flagless", "ungrouped"]);
+  });
+});
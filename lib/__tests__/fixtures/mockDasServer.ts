@@ -0,0 +1,83 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { DasAsset } from "@/lib/das";
+
+/**
+ * Local DAS JSON-RPC endpoint for tests: point HELIUS_DAS_URL at `url`
+ * and answer each request from recorded fixture pages
+ */
+
+export interface DasRequestRecord {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+export interface MockDasResponse {
+  status?: number;
+  body: unknown;
+}
+
+export interface MockDasServer {
+  url: string;
+  requests: DasRequestRecord[];
+  /** Replaces the handler answering subsequent requests */
+  respond(handler: (request: DasRequestRecord) => MockDasResponse): void;
+  close(): Promise<void>;
+}
+
+export function loadDasFixture(name: string): { result: { items: DasAsset[] } } {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "das", `${name}.json`), "utf-8"));
+}
+
+/**
+ * A recorded page topped up with filler assets to `limit` items, so the
+ * client asks for the next page
+ */
+export function fullPage(name: string, limit: number): MockDasResponse {
+  const fixture = loadDasFixture(name);
+  const items = [...fixture.result.items];
+  for (let i = items.length; i < limit; i++) {
+    items.push({
+      id: `filler-${name}-${i}`,
+      interface: "V1_NFT",
+      ownership: { owner: "filler" },
+    });
+  }
+  return { body: { ...fixture, result: { ...fixture.result, items } } };
+}
+
+export async function startMockDasServer(): Promise<MockDasServer> {
+  const requests: DasRequestRecord[] = [];
+  let handler: (request: DasRequestRecord) => MockDasResponse = () => ({
+    status: 500,
+    body: { error: "no handler" },
+  });
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      const { method, params } = JSON.parse(raw);
+      const request = { method, params };
+      requests.push(request);
+
+      const { status = 200, body } = handler(request);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respond(next) {
+      handler = next;
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
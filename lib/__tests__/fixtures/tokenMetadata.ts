@@ -0,0 +1,100 @@
+import { PublicKey } from "@solana/web3.js";
+import { TOKEN_METADATA_PROGRAM_ID } from "@/lib/tokenMetadata";
+
+/**
+ * Token Metadata account fixtures, Borsh-encoded the way the program stores
+ * them (fixed-size padded strings, account zero-padded to its full size)
+ */
+
+export const COLLECTION_ADDRESS = "J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w";
+export const OTHER_COLLECTION_ADDRESS = "SMBtHCCC6RYRutFEPb4gZqeBLUZbMNhRKaMKZZLHi7W";
+export const MINT_ADDRESS = "7Xf5JB2Sa2dBvDvJ2WmhgY3yPfLqV1R7hVn7mB8yTqQk";
+export const UPDATE_AUTHORITY = "3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf";
+
+// MAX_METADATA_LEN of the Token Metadata program
+const METADATA_ACCOUNT_SIZE = 679;
+
+class BorshWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value);
+    return this;
+  }
+
+  u16(value: number) {
+    this.bytes.push(value & 0xff, value >> 8);
+    return this;
+  }
+
+  u32(value: number) {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24);
+    return this;
+  }
+
+  bool(value: boolean) {
+    return this.u8(value ? 1 : 0);
+  }
+
+  pubkey(address: string) {
+    this.bytes.push(...new PublicKey(address).toBytes());
+    return this;
+  }
+
+  paddedString(value: string, size: number) {
+    const encoded = Buffer.alloc(size);
+    encoded.write(value, "utf8");
+    this.u32(size);
+    this.bytes.push(...encoded);
+    return this;
+  }
+
+  toBuffer(size: number): Buffer {
+    const buffer = Buffer.alloc(Math.max(size, this.bytes.length));
+    buffer.set(this.bytes);
+    return buffer;
+  }
+}
+
+export interface MetadataFixtureOptions {
+  mint?: string;
+  name?: string;
+  /** null: no collection field at all */
+  collection?: { key: string; verified: boolean } | null;
+}
+
+export function encodeMetadataAccount({
+  mint = MINT_ADDRESS,
+  name = "Wassie #564",
+  collection = { key: COLLECTION_ADDRESS, verified: true },
+}: MetadataFixtureOptions = {}): Buffer {
+  const writer = new BorshWriter()
+    .u8(4) // Key::MetadataV1
+    .pubkey(UPDATE_AUTHORITY)
+    .pubkey(mint)
+    .paddedString(name, 32)
+    .paddedString("WASSIE", 10)
+    .paddedString("https://arweave.net/wassie-564.json", 200)
+    .u16(500)
+    .u8(1) // creators: Some
+    .u32(1)
+    .pubkey(UPDATE_AUTHORITY)
+    .bool(true)
+    .u8(100)
+    .bool(true) // primarySaleHappened
+    .bool(true) // isMutable
+    .u8(1).u8(254) // editionNonce: Some(254)
+    .u8(1).u8(0); // tokenStandard: Some(NonFungible)
+
+  if (collection) {
+    writer.u8(1).bool(collection.verified).pubkey(collection.key);
+  } else {
+    writer.u8(0);
+  }
+
+  return writer.toBuffer(METADATA_ACCOUNT_SIZE);
+}
+
+export function metadataAccountInfo(data: Buffer, owner = TOKEN_METADATA_PROGRAM_ID) {
+  return { data, owner, executable: false, lamports: 5616720, rentEpoch: 0 };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { ManifestError } from "@/lib/errors";
+import { parseHashlist, validateHashlist } from "@/lib/hashlist";
+
+const MINT_A = "7Xf5JB2Sa2dBvDvJ2WmhgY3yPfLqV1R7hVn7mB8yTqQk";
+const MINT_B = "9pW1Jb6KqkJqR8Yx3sC3oS4ZbL8gA2qXr5wH1vT6nU7e";
+
+describe("parseHashlist (CSV)", () => {
+  it("keeps quoted commas, quotes and line breaks in their column", () => {
+    const csv = [
+      "mint,tokenId,name,image",
+      `${MINT_A},12,"Wassie, the Great #12",https://arweave.net/12.png`,
+      `${MINT_B},13,"The ""Second""\nWassie #13",https://arweave.net/13.png`,
+    ].join("\r\n");
+
+    expect(parseHashlist(csv, "csv")).toEqual([
+      { mint: MINT_A, tokenId: "12", name: "Wassie, the Great #12", imageUri: "https://arweave.net/12.png" },
+      { mint: MINT_B, tokenId: "13", name: 'The "Second"\nWassie #13', imageUri: "https://arweave.net/13.png" },
+    ]);
+  });
+
+  it("rejects a row whose column count doesn't match the header", () => {
+    const csv = `mint,tokenId,name,image\n\n${MINT_A},12,Wassie, the Great #12,https://arweave.net/12.png\n`;
+
+    expect(() => parseHashlist(csv, "csv")).toThrow(/line 3 has 5 columns, the header has 4/);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseHashlist(`mint,name\n${MINT_A},"Wassie #12\n`, "csv")).toThrow(ManifestError);
+  });
+
+  it("requires a mint column", () => {
+    expect(() => parseHashlist(`tokenId,name\n12,Wassie #12\n`, "csv")).toThrow(/mint column/);
+  });
+});
+
+describe("parseHashlist (JSON)", () => {
+  it("accepts address lists, objects and maps", () => {
+    expect(parseHashlist(JSON.stringify([MINT_A]), "json")).toEqual([{ mint: MINT_A }]);
+    expect(parseHashlist(JSON.stringify([{ mintAddress: MINT_A, tokenId: 12, imageUri: "x" }]), "json"))
+      .toEqual([{ mint: MINT_A, tokenId: "12", imageUri: "x" }]);
+    expect(parseHashlist(JSON.stringify({ [MINT_A]: "12" }), "json")).toEqual([{ mint: MINT_A, tokenId: "12" }]);
+  });
+
+  it("rejects invalid mint addresses", () => {
+    expect(() => parseHashlist(JSON.stringify(["not-a-mint"]), "json")).toThrow(/invalid mint address/);
+  });
+});
+
+describe("validateHashlist", () => {
+  it("rejects duplicate mints and token IDs", () => {
+    expect(() => validateHashlist([{ mint: MINT_A, tokenId: "1" }, { mint: MINT_A, tokenId: "2" }]))
+      .toThrow(/more than once/);
+    expect(() => validateHashlist([{ mint: MINT_A, tokenId: "1" }, { mint: MINT_B, tokenId: "1" }]))
+      .toThrow(/more than one mint/);
+  });
+});
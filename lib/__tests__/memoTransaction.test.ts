@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import nacl from "tweetnacl";
+import { SignatureVerificationError } from "@/lib/errors";
+import { MEMO_PROGRAM_IDS, verifyMemoTransaction } from "@/lib/signatures/solana";
+
+const MEMO = "Sign in to link.example.com: 8f2a61c04d7e93b5";
+
+function memoInstruction(memo = MEMO, programId = MEMO_PROGRAM_IDS[0]) {
+  return new TransactionInstruction({ programId: new PublicKey(programId), keys: [], data: Buffer.from(memo, "utf8") });
+}
+
+function proofTransaction(
+  payer: Keypair,
+  instructions = [memoInstruction()],
+  { version = "legacy", lookupTables = [] }: { version?: "legacy" | 0; lookupTables?: AddressLookupTableAccount[] } = {}
+): string {
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions,
+  });
+  const tx = new VersionedTransaction(
+    version === "legacy" ? message.compileToLegacyMessage() : message.compileToV0Message(lookupTables)
+  );
+  tx.sign([payer]);
+
+  return Buffer.from(tx.serialize()).toString("base64");
+}
+
+function resign(transaction: string, signature: (message: Uint8Array) => Uint8Array): string {
+  const tx = VersionedTransaction.deserialize(Buffer.from(transaction, "base64"));
+  tx.signatures[0] = signature(tx.message.serialize());
+  return Buffer.from(tx.serialize()).toString("base64");
+}
+
+function verify(address: string, transaction: string, expectedMemo = MEMO) {
+  return () => verifyMemoTransaction({ address, transaction, expectedMemo });
+}
+
+describe("verifyMemoTransaction", () => {
+  it.each([
+    ["a legacy transaction", "legacy" as const],
+    ["a v0 transaction", 0 as const],
+  ])("accepts %s signed by the wallet", (_case, version) => {
+    const payer = Keypair.generate();
+
+    expect(verify(payer.publicKey.toBase58(), proofTransaction(payer, [memoInstruction()], { version }))).not.toThrow();
+  });
+
+  it("accepts the Memo v1 program and compute budget instructions", () => {
+    const payer = Keypair.generate();
+    const transaction = proofTransaction(payer, [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 20_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+      memoInstruction(MEMO, MEMO_PROGRAM_IDS[1]),
+    ]);
+
+    expect(verify(payer.publicKey.toBase58(), transaction)).not.toThrow();
+  });
+
+  it("rejects a transaction paid for by another wallet", () => {
+    const payer = Keypair.generate();
+
+    expect(verify(Keypair.generate().publicKey.toBase58(), proofTransaction(payer)))
+      .toThrow("Transaction fee payer does not match wallet address");
+  });
+
+  it("rejects a fee payer signature made with another key", () => {
+    const payer = Keypair.generate();
+    const other = Keypair.generate();
+    const transaction = resign(proofTransaction(payer), message => nacl.sign.detached(message, other.secretKey));
+
+    expect(verify(payer.publicKey.toBase58(), transaction)).toThrow("Invalid fee payer signature");
+  });
+
+  it("rejects an unsigned transaction", () => {
+    const payer = Keypair.generate();
+    const transaction = resign(proofTransaction(payer), () => new Uint8Array(64));
+
+    expect(verify(payer.publicKey.toBase58(), transaction)).toThrow("Invalid fee payer signature");
+  });
+
+  it("rejects a memo for another challenge", () => {
+    const payer = Keypair.generate();
+
+    expect(verify(payer.publicKey.toBase58(), proofTransaction(payer), `${MEMO}0`))
+      .toThrow("Memo does not match the issued challenge");
+  });
+
+  it("rejects a transaction without a memo", () => {
+    const payer = Keypair.generate();
+
+    expect(verify(payer.publicKey.toBase58(), proofTransaction(payer, [])))
+      .toThrow("Memo does not match the issued challenge");
+  });
+
+  it("rejects a second memo", () => {
+    const payer = Keypair.generate();
+
+    expect(verify(payer.publicKey.toBase58(), proofTransaction(payer, [memoInstruction(), memoInstruction()])))
+      .toThrow("Transaction must contain exactly one memo");
+  });
+
+  it("rejects instructions for other programs", () => {
+    const payer = Keypair.generate();
+    const transfer = SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1_000_000_000,
+    });
+
+    expect(verify(payer.publicKey.toBase58(), proofTransaction(payer, [memoInstruction(), transfer])))
+      .toThrow(`Unexpected instruction for program ${SystemProgram.programId.toBase58()}`);
+  });
+
+  it("rejects address lookup tables", () => {
+    const payer = Keypair.generate();
+    const account = Keypair.generate().publicKey;
+    const lookupTable = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: { deactivationSlot: BigInt("18446744073709551615"), lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, addresses: [account] },
+    });
+    const memo = new TransactionInstruction({
+      programId: new PublicKey(MEMO_PROGRAM_IDS[0]),
+      keys: [{ pubkey: account, isSigner: false, isWritable: false }],
+      data: Buffer.from(MEMO, "utf8"),
+    });
+
+    expect(verify(payer.publicKey.toBase58(), proofTransaction(payer, [memo], { version: 0, lookupTables: [lookupTable] })))
+      .toThrow("Address lookup tables are not allowed in the proof transaction");
+  });
+
+  it("rejects bytes that aren't a transaction", () => {
+    expect(verify(Keypair.generate().publicKey.toBase58(), Buffer.from("not a transaction").toString("base64")))
+      .toThrow(SignatureVerificationError);
+  });
+});
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CollectionNFT } from "@/lib/solana";
+
+const getCollectionNFTs = vi.fn<(wallet: string) => Promise<CollectionNFT[]>>();
+vi.mock("@/lib/solana", () => ({ getCollectionNFTs: (wallet: string) => getCollectionNFTs(wallet) }));
+
+const { getOwnedNFTs, invalidateOwnedNFTs } = await import("@/lib/nftOwnership");
+
+const COLLECTION = { id: "collection-id", slug: "wassieverse", address: "J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w" };
+const NFT: CollectionNFT = { mintAddress: "7Xf5JB2Sa2dBvDvJ2WmhgY3yPfLqV1R7hVn7mB8yTqQk", tokenId: "564", standard: "token-metadata" };
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => (resolve = res));
+  return { promise, resolve };
+}
+
+let wallet = 0;
+const nextWallet = () => `wallet-${++wallet}`;
+
+beforeEach(() => {
+  getCollectionNFTs.mockReset();
+});
+
+describe("getOwnedNFTs", () => {
+  it("caches lookups and shares concurrent ones", async () => {
+    const address = nextWallet();
+    getCollectionNFTs.mockResolvedValue([NFT]);
+
+    const [first, second] = await Promise.all([getOwnedNFTs(address, COLLECTION), getOwnedNFTs(address, COLLECTION)]);
+    const cached = await getOwnedNFTs(address, COLLECTION);
+
+    expect(first).toEqual([NFT]);
+    expect(second).toEqual([NFT]);
+    expect(cached).toEqual([NFT]);
+    expect(getCollectionNFTs).toHaveBeenCalledTimes(1);
+  });
+
+  it("queries the chain again with fresh: true", async () => {
+    const address = nextWallet();
+    getCollectionNFTs.mockResolvedValue([NFT]);
+
+    await getOwnedNFTs(address, COLLECTION);
+    await getOwnedNFTs(address, COLLECTION, { fresh: true });
+
+    expect(getCollectionNFTs).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't cache errors", async () => {
+    const address = nextWallet();
+    getCollectionNFTs.mockRejectedValueOnce(new Error("RPC down")).mockResolvedValueOnce([NFT]);
+
+    await expect(getOwnedNFTs(address, COLLECTION)).rejects.toThrow("RPC down");
+    expect(await getOwnedNFTs(address, COLLECTION)).toEqual([NFT]);
+  });
+});
+
+describe("invalidateOwnedNFTs", () => {
+  it("drops cached holdings", async () => {
+    const address = nextWallet();
+    getCollectionNFTs.mockResolvedValueOnce([NFT]).mockResolvedValueOnce([]);
+
+    await getOwnedNFTs(address, COLLECTION);
+    await invalidateOwnedNFTs(COLLECTION, [address]);
+
+    expect(await getOwnedNFTs(address, COLLECTION)).toEqual([]);
+  });
+
+  it("keeps a lookup started before the invalidation from writing its result back", async () => {
+    const address = nextWallet();
+    const staleLookup = deferred<CollectionNFT[]>();
+    getCollectionNFTs.mockReturnValueOnce(staleLookup.promise).mockResolvedValue([]);
+
+    const pending = getOwnedNFTs(address, COLLECTION);
+    await vi.waitFor(() => expect(getCollectionNFTs).toHaveBeenCalledTimes(1));
+    await invalidateOwnedNFTs(COLLECTION, [address]);
+    staleLookup.resolve([NFT]);
+
+    expect(await pending).toEqual([NFT]);
+    expect(await getOwnedNFTs(address, COLLECTION)).toEqual([]);
+    expect(getCollectionNFTs).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { CLIENT_IP_HEADER } from "@/lib/requestContext";
+
+const redis = vi.hoisted(() => ({
+  available: false,
+  evalRedisScript: vi.fn<(script: string, keys: string[], args: string[]) => Promise<unknown>>(),
+}));
+vi.mock("@/lib/redis", () => ({
+  isRedisAvailable: () => redis.available,
+  evalRedisScript: redis.evalRedisScript,
+}));
+
+const { RATE_LIMIT_POLICIES, checkRateLimit, withRateLimit } = await import("@/lib/rateLimit");
+
+const POLICY = { limit: 3, windowSeconds: 60 };
+
+let client = 0;
+const nextKey = () => `test:client-${++client}`;
+
+function request(clientIp: string | null) {
+  return new NextRequest("http://localhost/api/nonce", {
+    method: "POST",
+    headers: clientIp ? { [CLIENT_IP_HEADER]: clientIp } : {},
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(1_000_000);
+  redis.available = false;
+  redis.evalRedisScript.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("checkRateLimit (memory)", () => {
+  it("allows `limit` requests per window and counts down the remaining ones", async () => {
+    const key = nextKey();
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit(key, POLICY));
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].reset).toBe(1_000_000 + 60_000);
+  });
+
+  it("frees a slot when the oldest request leaves the window", async () => {
+    const key = nextKey();
+    await checkRateLimit(key, POLICY);
+    vi.advanceTimersByTime(20_000);
+    await checkRateLimit(key, POLICY);
+    await checkRateLimit(key, POLICY);
+
+    vi.advanceTimersByTime(39_999);
+    expect((await checkRateLimit(key, POLICY)).allowed).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    const result = await checkRateLimit(key, POLICY);
+    expect(result.allowed).toBe(true);
+    // The window now starts at the second request
+    expect(result.reset).toBe(1_000_000 + 20_000 + 60_000);
+  });
+
+  it("doesn't count rejected requests", async () => {
+    const key = nextKey();
+    for (let i = 0; i < 10; i++) {
+      await checkRateLimit(key, POLICY);
+    }
+
+    vi.advanceTimersByTime(60_000);
+    expect((await checkRateLimit(key, POLICY)).remaining).toBe(2);
+  });
+
+  it("keeps clients apart", async () => {
+    const first = nextKey();
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit(first, POLICY);
+    }
+
+    expect((await checkRateLimit(first, POLICY)).allowed).toBe(false);
+    expect((await checkRateLimit(nextKey(), POLICY)).allowed).toBe(true);
+  });
+});
+
+describe("checkRateLimit (Redis)", () => {
+  it("uses the sliding window script's result", async () => {
+    redis.available = true;
+    redis.evalRedisScript.mockResolvedValue([1, 2, 1_050_000]);
+
+    const result = await checkRateLimit("test:redis", POLICY);
+
+    expect(result).toEqual({ allowed: true, limit: 3, remaining: 1, reset: 1_050_000 });
+    const [, keys, args] = redis.evalRedisScript.mock.calls[0];
+    expect(keys).toEqual(["ratelimit:test:redis"]);
+    expect(args.slice(0, 3)).toEqual(["1000000", "60000", "3"]);
+  });
+
+  it("falls back to the memory limiter when Redis fails", async () => {
+    redis.available = true;
+    redis.evalRedisScript.mockRejectedValue(new Error("connection reset"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const key = nextKey();
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit(key, POLICY));
+    }
+
+    expect(redis.evalRedisScript).toHaveBeenCalledTimes(4);
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+  });
+});
+
+describe("withRateLimit", () => {
+  const { limit, windowSeconds } = RATE_LIMIT_POLICIES.nonce;
+  const handler = vi.fn(async () => NextResponse.json({ success: true }));
+
+  beforeEach(() => {
+    handler.mockClear();
+  });
+
+  it("adds the RateLimit-* headers to the handler's response", async () => {
+    const response = await withRateLimit("nonce", handler)(request("198.51.100.1"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Limit")).toBe(String(limit));
+    expect(response.headers.get("RateLimit-Remaining")).toBe(String(limit - 1));
+    expect(response.headers.get("RateLimit-Reset")).toBe(String(windowSeconds));
+    expect(response.headers.get("RateLimit-Policy")).toBe(`${limit};w=${windowSeconds}`);
+  });
+
+  it("answers 429 with Retry-After once the client is over the limit", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const limited = withRateLimit("nonce", handler);
+    for (let i = 0; i < limit; i++) {
+      await limited(request("198.51.100.2"));
+    }
+
+    vi.advanceTimersByTime(15_000);
+    const response = await limited(request("198.51.100.2"));
+
+    expect(response.status).toBe(429);
+    expect(handler).toHaveBeenCalledTimes(limit);
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(response.headers.get("Retry-After")).toBe(String(windowSeconds - 15));
+    expect(await response.json()).toMatchObject({ resetAt: new Date(1_000_000 + windowSeconds * 1000).toISOString() });
+  });
+
+  it("doesn't put clients without a resolved IP into a shared bucket", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const limited = withRateLimit("nonce", handler);
+
+    for (let i = 0; i < limit + 5; i++) {
+      const response = await limited(request(null));
+      expect(response.status).toBe(200);
+      expect(response.headers.get("RateLimit-Limit")).toBeNull();
+    }
+
+    expect(handler).toHaveBeenLastCalledWith(expect.any(NextRequest), null);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseTrustedProxies, resolveClientIp, resolveRequestId } from "@/lib/requestContext";
+
+describe("resolveClientIp", () => {
+  const trusted = parseTrustedProxies("10.0.0.0/8, 2001:db8:cafe::/48, 203.0.113.7, loopback");
+
+  it.each([
+    ["no header", null, null],
+    ["an empty header", "", null],
+    ["only separators and garbage", " , not-an-ip, ", null],
+    ["a direct client", "198.51.100.1", "198.51.100.1"],
+    ["a client behind a trusted proxy", "198.51.100.1, 10.1.2.3", "198.51.100.1"],
+    ["a client behind a proxy chain", "198.51.100.1, 203.0.113.7, 10.1.2.3", "198.51.100.1"],
+    ["a spoofed leftmost entry", "1.2.3.4, 198.51.100.1, 10.1.2.3", "198.51.100.1"],
+    ["a spoofed trusted-looking leftmost entry", "10.9.9.9, 198.51.100.1, 10.1.2.3", "198.51.100.1"],
+    ["an untrusted hop closest to us", "198.51.100.1, 192.0.2.50", "192.0.2.50"],
+    ["garbage injected between hops", "198.51.100.1, <script>, 10.1.2.3", "198.51.100.1"],
+    ["a client port", "198.51.100.1:51234, 10.1.2.3", "198.51.100.1"],
+    ["only trusted proxies", "10.1.1.1, 10.1.2.3", "10.1.1.1"],
+    ["an IPv6 client behind a trusted IPv6 proxy", "2001:db8:1::5, 2001:db8:cafe:1::2", "2001:db8:1::5"],
+    ["a bracketed IPv6 client with a port", "[2001:db8:1::5]:443, 10.1.2.3", "2001:db8:1::5"],
+    ["an IPv6 hop just outside the trusted /48", "198.51.100.1, 2001:db8:cafd::1", "2001:db8:cafd::1"],
+    ["an IPv4-mapped IPv6 trusted proxy", "198.51.100.1, ::ffff:10.1.2.3", "198.51.100.1"],
+    ["an IPv4-mapped IPv6 client", "::ffff:198.51.100.1, 10.1.2.3", "::ffff:198.51.100.1"],
+    ["a loopback proxy", "198.51.100.1, 127.0.0.1, ::1", "198.51.100.1"],
+  ])("handles %s", (_case, header, expected) => {
+    expect(resolveClientIp(header, trusted)).toBe(expected);
+  });
+
+  it("trusts nothing without TRUSTED_PROXIES", () => {
+    expect(resolveClientIp("198.51.100.1, 10.1.2.3", parseTrustedProxies(undefined))).toBe("10.1.2.3");
+  });
+});
+
+describe("parseTrustedProxies", () => {
+  const isTrusted = (entries: string, ip: string) => resolveClientIp(`198.51.100.1, ${ip}`, parseTrustedProxies(entries)) === "198.51.100.1";
+
+  it.each([
+    ["a single IPv4 address", "203.0.113.7", "203.0.113.7", true],
+    ["a neighbouring IPv4 address", "203.0.113.7", "203.0.113.8", false],
+    ["an IPv4 /12", "172.16.0.0/12", "172.31.255.255", true],
+    ["just past an IPv4 /12", "172.16.0.0/12", "172.32.0.0", false],
+    ["an IPv4 /0", "0.0.0.0/0", "192.0.2.1", true],
+    ["an IPv6 /64", "2001:db8::/64", "2001:db8::ffff:1", true],
+    ["just past an IPv6 /64", "2001:db8::/64", "2001:db8:0:1::1", false],
+    ["a full IPv6 address", "2001:0db8:0000:0000:0000:0000:0000:0001", "2001:db8::1", true],
+    ["an IPv4 range for an IPv4-mapped address", "10.0.0.0/8", "::ffff:10.0.0.1", true],
+    ["an IPv6 range for an IPv4 address", "::/0", "10.0.0.1", false],
+    ["the private alias", "private", "192.168.1.20", true],
+    ["the private alias for IPv6 ULAs", "private", "fd12:3456::1", true],
+    ["the loopback alias", "loopback", "127.0.0.1", true],
+  ])("matches %s", (_case, entries, ip, expected) => {
+    expect(isTrusted(entries, ip)).toBe(expected);
+  });
+
+  it.each(["10.0.0.0/33", "2001:db8::/129", "256.0.0.1", "1:2:3:4:5:6:7:8:9", "2001:db8::1::2", "10.0.0.0/abc", "nonsense"])(
+    "ignores the invalid entry %s",
+    entry => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      expect(parseTrustedProxies(`${entry}, 10.0.0.1`)).toHaveLength(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(entry));
+
+      warn.mockRestore();
+    }
+  );
+});
+
+describe("resolveRequestId", () => {
+  it("keeps a sane upstream request ID", () => {
+    expect(resolveRequestId("req-1234abcd")).toBe("req-1234abcd");
+  });
+
+  it.each([null, "", "short", "x".repeat(65), "id with spaces", "id\nX-Injected: 1"])("replaces %j", incoming => {
+    const requestId = resolveRequestId(incoming);
+
+    expect(requestId).not.toBe(incoming);
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,135 @@
+import { createHmac } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SessionTokenError } from "@/lib/errors";
+import {
+  ADMIN_SESSION_TTL_SECONDS,
+  VERIFICATION_TOKEN_TTL_SECONDS,
+  createAdminSessionToken,
+  createVerificationToken,
+  verifyAdminSessionToken,
+  verifyVerificationToken,
+} from "@/lib/session";
+
+const SECRET = "test-session-secret";
+const SOLANA_ADDRESS = "3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf";
+const NFTS = [{ mintAddress: "7Xf5JB2Sa2dBvDvJ2WmhgY3yPfLqV1R7hVn7mB8yTqQk", tokenId: "564" }];
+
+/**
+ * Signs arbitrary claims the way lib/session does, to forge tokens the
+ * library itself would never issue
+ */
+function signToken(claims: object, { header = { alg: "HS256", typ: "JWT" }, secret = SECRET } = {}): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+}
+
+function verificationToken() {
+  return createVerificationToken({
+    solanaAddress: SOLANA_ADDRESS,
+    collectionId: "collection-id",
+    nfts: NFTS,
+    method: "raw",
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv("SESSION_SECRET", SECRET);
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T12:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("verification tokens", () => {
+  it("carry the verified address and NFTs for the link-evm audience", () => {
+    const { token, expiresAt } = verificationToken();
+
+    const claims = verifyVerificationToken(token);
+
+    expect(claims).toMatchObject({
+      sub: SOLANA_ADDRESS,
+      aud: "link-evm",
+      method: "raw",
+      collectionId: "collection-id",
+      nfts: NFTS,
+    });
+    expect(claims.exp - claims.iat).toBe(VERIFICATION_TOKEN_TTL_SECONDS);
+    expect(expiresAt.getTime()).toBe(claims.exp * 1000);
+  });
+
+  it("expire after their lifetime", () => {
+    const { token } = verificationToken();
+
+    vi.advanceTimersByTime(VERIFICATION_TOKEN_TTL_SECONDS * 1000 - 1);
+    expect(() => verifyVerificationToken(token)).not.toThrow();
+
+    vi.advanceTimersByTime(1);
+    expect(() => verifyVerificationToken(token)).toThrow("Verification token expired");
+  });
+
+  it("are only accepted for their own audience", () => {
+    const { token } = verificationToken();
+    const claims = verifyVerificationToken(token);
+
+    expect(() => verifyVerificationToken(signToken({ ...claims, aud: "admin" })))
+      .toThrow("Verification token audience mismatch");
+  });
+
+  it("are rejected when signed with another secret", () => {
+    const { token } = verificationToken();
+    const claims = verifyVerificationToken(token);
+
+    expect(() => verifyVerificationToken(signToken(claims, { secret: "another-secret" })))
+      .toThrow("Invalid verification token signature");
+  });
+
+  it("are rejected when the claims are changed", () => {
+    const { token } = verificationToken();
+    const [header, , signature] = token.split(".");
+    const payload = Buffer.from(JSON.stringify({ sub: "attacker" })).toString("base64url");
+
+    expect(() => verifyVerificationToken(`${header}.${payload}.${signature}`))
+      .toThrow("Invalid verification token signature");
+  });
+
+  it("are rejected with another algorithm", () => {
+    const { token } = verificationToken();
+    const claims = verifyVerificationToken(token);
+
+    expect(() => verifyVerificationToken(signToken(claims, { header: { alg: "none", typ: "JWT" } })))
+      .toThrow("Malformed verification token");
+  });
+
+  it.each(["", "not-a-token", "a.b", "a.b.c.d"])("are rejected when malformed: %j", token => {
+    expect(() => verifyVerificationToken(token)).toThrow(SessionTokenError);
+  });
+});
+
+describe("admin session tokens", () => {
+  const ADMIN_WALLET = "0xd8da6bf26964af9d7eed9e10c46ba1a5f2ea2b27";
+
+  it("carry the admin wallet for the admin audience", () => {
+    const { token } = createAdminSessionToken(ADMIN_WALLET);
+
+    expect(verifyAdminSessionToken(token)).toMatchObject({ sub: ADMIN_WALLET, aud: "admin" });
+  });
+
+  it("expire after an hour", () => {
+    const { token } = createAdminSessionToken(ADMIN_WALLET);
+
+    vi.advanceTimersByTime(ADMIN_SESSION_TTL_SECONDS * 1000);
+    expect(() => verifyAdminSessionToken(token)).toThrow("Admin session expired");
+  });
+
+  it("aren't accepted as verification tokens, and the other way round", () => {
+    const { token: adminToken } = createAdminSessionToken(ADMIN_WALLET);
+    const { token } = verificationToken();
+
+    expect(() => verifyVerificationToken(adminToken)).toThrow("Verification token audience mismatch");
+    expect(() => verifyAdminSessionToken(token)).toThrow("Admin session audience mismatch");
+  });
+});
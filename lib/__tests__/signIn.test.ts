@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { SignInMessageError } from "@/lib/errors";
+import {
+  SIGN_IN_STATEMENT,
+  formatSignInMessage,
+  parseSignInMessage,
+  validateSignInMessage,
+  type SignInMessage,
+} from "@/lib/signatures/signIn";
+import { createSiwsMessage, verifySiwsMessage } from "@/lib/signatures/siws";
+
+const CONFIG = { domain: "link.example.com", uri: "https://link.example.com" };
+const ADDRESS = "3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf";
+const NONCE = "8f2a61c04d7e93b5";
+const NOW = new Date("2026-01-01T12:00:00.000Z");
+
+const MESSAGE: SignInMessage = {
+  chain: "Solana",
+  domain: CONFIG.domain,
+  address: ADDRESS,
+  statement: SIGN_IN_STATEMENT,
+  uri: CONFIG.uri,
+  version: "1",
+  chainId: "mainnet",
+  nonce: NONCE,
+  issuedAt: "2026-01-01T11:59:00.000Z",
+  expirationTime: "2026-01-01T12:04:00.000Z",
+  requestId: "req-1234abcd",
+};
+
+const EXPECTED = { chain: "Solana" as const, domain: CONFIG.domain, uri: CONFIG.uri, chainId: "mainnet", address: ADDRESS };
+
+describe("formatSignInMessage", () => {
+  it("writes the CAIP-122 layout", () => {
+    expect(formatSignInMessage(MESSAGE)).toBe(
+      [
+        "link.example.com wants you to sign in with your Solana account:",
+        ADDRESS,
+        "",
+        SIGN_IN_STATEMENT,
+        "",
+        "URI: https://link.example.com",
+        "Version: 1",
+        "Chain ID: mainnet",
+        `Nonce: ${NONCE}`,
+        "Issued At: 2026-01-01T11:59:00.000Z",
+        "Expiration Time: 2026-01-01T12:04:00.000Z",
+        "Request ID: req-1234abcd",
+      ].join("\n")
+    );
+  });
+
+  it("leaves out the statement and optional fields when they're missing", () => {
+    const text = formatSignInMessage({ ...MESSAGE, statement: undefined, expirationTime: undefined, requestId: undefined });
+
+    expect(text.split("\n").slice(2, 4)).toEqual(["", "URI: https://link.example.com"]);
+    expect(text).not.toContain("Expiration Time");
+    expect(text).not.toContain("Request ID");
+  });
+});
+
+describe("parseSignInMessage", () => {
+  it("reads back a formatted message", () => {
+    expect(parseSignInMessage(formatSignInMessage(MESSAGE))).toEqual(MESSAGE);
+  });
+
+  it("reads back a message without a statement", () => {
+    const message = { ...MESSAGE, statement: undefined };
+
+    expect(parseSignInMessage(formatSignInMessage(message))).toEqual(message);
+  });
+
+  it.each([
+    ["free-form text", `Sign in to link.example.com: ${NONCE}`],
+    ["an unknown chain", formatSignInMessage(MESSAGE).replace("Solana account", "Bitcoin account")],
+    ["a missing address", formatSignInMessage({ ...MESSAGE, address: "" })],
+    ["a statement without a blank line after it", formatSignInMessage(MESSAGE).replace(`${SIGN_IN_STATEMENT}\n\n`, `${SIGN_IN_STATEMENT}\n`)],
+    ["fields out of order", formatSignInMessage(MESSAGE).replace("Version: 1\nChain ID: mainnet", "Chain ID: mainnet\nVersion: 1")],
+    ["an unknown field", `${formatSignInMessage(MESSAGE)}\nResources: https://evil.example.com`],
+    ["a missing nonce", formatSignInMessage({ ...MESSAGE, nonce: "" })],
+  ])("rejects %s", (_case, text) => {
+    expect(() => parseSignInMessage(text)).toThrow(SignInMessageError);
+  });
+});
+
+describe("validateSignInMessage", () => {
+  it("accepts a message issued for us", () => {
+    expect(() => validateSignInMessage(MESSAGE, { ...EXPECTED, nonce: NONCE }, NOW)).not.toThrow();
+  });
+
+  it.each([
+    ["another chain", { chain: "Ethereum" as const }, {}, "Expected a Ethereum sign-in message"],
+    ["a phishing domain", {}, { domain: "link-example.com" }, "Message domain does not match"],
+    ["another URI", {}, { uri: "https://evil.example.com" }, "Message URI does not match"],
+    ["another version", {}, { version: "2" }, "Unsupported message version"],
+    ["another chain ID", {}, { chainId: "devnet" }, "Message chain ID does not match"],
+    ["another wallet", {}, { address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM" }, "Message address does not match"],
+    ["another nonce", { nonce: "0000000000000000" }, {}, "Message nonce does not match"],
+    ["an issued-at time in the future", {}, { issuedAt: "2026-01-01T12:00:01.000Z" }, "Message issued-at time is invalid"],
+    ["an unparseable issued-at time", {}, { issuedAt: "yesterday" }, "Message issued-at time is invalid"],
+    ["no expiration time", {}, { expirationTime: undefined }, "Message has no expiration time"],
+    ["an expired message", {}, { expirationTime: "2026-01-01T12:00:00.000Z" }, "Message has expired"],
+    ["a not-before time in the future", {}, { notBefore: "2026-01-01T12:01:00.000Z" }, "Message is not valid yet"],
+  ])("rejects %s", (_case, expected, message, error) => {
+    expect(() => validateSignInMessage({ ...MESSAGE, ...message }, { ...EXPECTED, ...expected }, NOW)).toThrow(error);
+  });
+});
+
+describe("SIWS messages", () => {
+  const issuedAt = new Date(Date.now() - 1000);
+  const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+  const text = createSiwsMessage({ address: ADDRESS, nonce: NONCE, requestId: "req-1234abcd", issuedAt, expiresAt, config: CONFIG });
+
+  it("are issued for the configured domain, cluster and window", () => {
+    expect(parseSignInMessage(text)).toEqual({
+      ...MESSAGE,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString(),
+    });
+  });
+
+  it("verify against the wallet and nonce they were issued for", () => {
+    expect(verifySiwsMessage(text, { address: ADDRESS, config: CONFIG, nonce: NONCE }).nonce).toBe(NONCE);
+  });
+
+  it("don't verify for another site or wallet", () => {
+    expect(() => verifySiwsMessage(text, { address: ADDRESS, config: { ...CONFIG, domain: "evil.example.com" } }))
+      .toThrow("Message domain does not match");
+    expect(() => verifySiwsMessage(text, { address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", config: CONFIG }))
+      .toThrow("Message address does not match");
+  });
+});
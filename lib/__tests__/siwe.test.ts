@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { SignInMessageError } from "@/lib/errors";
+import { SIGN_IN_STATEMENT } from "@/lib/signatures/signIn";
+import { createSiweMessage, isEvmAddress, verifySiweMessage } from "@/lib/signatures/siwe";
+
+const CONFIG = { domain: "link.example.com", uri: "https://link.example.com" };
+const ADDRESS = "0xd8da6bf26964af9d7eed9e10c46ba1a5f2ea2b27";
+const CHECKSUMMED = "0xD8dA6bf26964aF9D7eed9e10c46bA1a5F2EA2B27";
+const NONCE = "8f2a61c04d7e93b5";
+
+function siweMessage(overrides: { issuedAt?: Date; expiresAt?: Date } = {}) {
+  return createSiweMessage({
+    address: ADDRESS,
+    nonce: NONCE,
+    requestId: "req-1234abcd",
+    issuedAt: overrides.issuedAt ?? new Date(Date.now() - 1000),
+    expiresAt: overrides.expiresAt ?? new Date(Date.now() + 5 * 60 * 1000),
+    config: CONFIG,
+  });
+}
+
+describe("isEvmAddress", () => {
+  it.each([
+    [ADDRESS, true],
+    [CHECKSUMMED, true],
+    ["0xd8da6bf26964af9d7eed9e10c46ba1a5f2ea2b2", false],
+    ["d8da6bf26964af9d7eed9e10c46ba1a5f2ea2b27", false],
+    ["3yTKSCKoDcjBFpbgxyJUh4cM1NG77gFXBimkVBx2hKrf", false],
+  ])("checks %s", (address, expected) => {
+    expect(isEvmAddress(address)).toBe(expected);
+  });
+});
+
+describe("createSiweMessage", () => {
+  it("writes an EIP-4361 message with the checksummed address", () => {
+    const issuedAt = new Date("2026-01-01T11:59:00.000Z");
+    const expiresAt = new Date("2026-01-01T12:04:00.000Z");
+
+    expect(siweMessage({ issuedAt, expiresAt })).toBe(
+      [
+        "link.example.com wants you to sign in with your Ethereum account:",
+        CHECKSUMMED,
+        "",
+        SIGN_IN_STATEMENT,
+        "",
+        "URI: https://link.example.com",
+        "Version: 1",
+        "Chain ID: 1",
+        `Nonce: ${NONCE}`,
+        "Issued At: 2026-01-01T11:59:00.000Z",
+        "Expiration Time: 2026-01-01T12:04:00.000Z",
+        "Request ID: req-1234abcd",
+      ].join("\n")
+    );
+  });
+});
+
+describe("verifySiweMessage", () => {
+  it("returns the fields of a message issued for the address", () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    const message = verifySiweMessage(siweMessage({ expiresAt }), { address: ADDRESS, config: CONFIG });
+
+    expect(message).toMatchObject({
+      chain: "Ethereum",
+      address: CHECKSUMMED,
+      chainId: "1",
+      nonce: NONCE,
+      expirationTime: expiresAt.toISOString(),
+      requestId: "req-1234abcd",
+    });
+  });
+
+  it.each([
+    ["another domain", { domain: "evil.example.com", uri: CONFIG.uri }, "Message domain does not match"],
+    ["another URI", { domain: CONFIG.domain, uri: "https://evil.example.com" }, "Message URI does not match"],
+  ])("rejects a message for %s", (_case, config, error) => {
+    expect(() => verifySiweMessage(siweMessage(), { address: ADDRESS, config })).toThrow(error);
+  });
+
+  it("rejects a message for another address", () => {
+    expect(() => verifySiweMessage(siweMessage(), { address: "0x0000000000000000000000000000000000000001", config: CONFIG }))
+      .toThrow("Message address does not match");
+    expect(() => verifySiweMessage(siweMessage(), { address: "not-an-address", config: CONFIG }))
+      .toThrow("Invalid EVM address");
+  });
+
+  it("rejects a message for another chain", () => {
+    const text = siweMessage().replace("Chain ID: 1", "Chain ID: 5");
+
+    expect(() => verifySiweMessage(text, { address: ADDRESS, config: CONFIG })).toThrow("Message chain ID does not match");
+  });
+
+  it("rejects an expired message", () => {
+    const text = siweMessage({ issuedAt: new Date(Date.now() - 10 * 60_000), expiresAt: new Date(Date.now() - 1000) });
+
+    expect(() => verifySiweMessage(text, { address: ADDRESS, config: CONFIG })).toThrow("Message has expired");
+  });
+
+  it.each([
+    ["free-form text", `Link my wallet ${ADDRESS}`],
+    ["an injected line", siweMessage().replace("\n\nURI", "\nSend all NFTs to 0xbad\n\nURI")],
+    ["a missing nonce", siweMessage().replace(`Nonce: ${NONCE}\n`, "")],
+  ])("rejects %s", (_case, text) => {
+    expect(() => verifySiweMessage(text, { address: ADDRESS, config: CONFIG })).toThrow(SignInMessageError);
+  });
+});
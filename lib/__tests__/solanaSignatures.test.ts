@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import { SignatureVerificationError } from "@/lib/errors";
+import {
+  DEFAULT_SOLANA_ENCODERS,
+  OffchainMessageFormat,
+  encodeLegacyOffchainMessage,
+  encodeOffchainMessage,
+  getSolanaEncoders,
+  registerSolanaEncoder,
+  selectOffchainMessageFormat,
+  verifySolanaSignature,
+} from "@/lib/signatures/solana";
+
+const MESSAGE = "example.com wants you to sign in with your Solana account:\nNonce: 8f2a61c0";
+const MESSAGE_BYTES = new TextEncoder().encode(MESSAGE);
+
+function fixtureSigner() {
+  const keyPair = nacl.sign.keyPair();
+  return { ...keyPair, address: new PublicKey(keyPair.publicKey).toBase58() };
+}
+
+function signWith(encoderName: string, signer: nacl.SignKeyPair, applicationDomain?: Uint8Array): string {
+  const [encoder] = getSolanaEncoders([encoderName]);
+  const encoded = encoder.encode(MESSAGE_BYTES, { publicKey: signer.publicKey, applicationDomain });
+  return bs58.encode(nacl.sign.detached(encoded, signer.secretKey));
+}
+
+describe("verifySolanaSignature", () => {
+  it.each(DEFAULT_SOLANA_ENCODERS.map(encoder => encoder.name))("reports the %s encoder", encoderName => {
+    const signer = fixtureSigner();
+
+    const result = verifySolanaSignature({
+      address: signer.address,
+      message: MESSAGE,
+      signature: signWith(encoderName, signer),
+    });
+
+    expect(result).toEqual({ verified: true, encoder: encoderName });
+  });
+
+  it("uses the application domain for offchain-v0", () => {
+    const signer = fixtureSigner();
+    const applicationDomain = new Uint8Array(32).fill(7);
+    const signature = signWith("offchain-v0", signer, applicationDomain);
+
+    expect(verifySolanaSignature({ address: signer.address, message: MESSAGE, signature, applicationDomain }))
+      .toEqual({ verified: true, encoder: "offchain-v0" });
+    expect(verifySolanaSignature({ address: signer.address, message: MESSAGE, signature }).verified).toBe(false);
+  });
+
+  it("accepts raw signature bytes and message bytes", () => {
+    const signer = fixtureSigner();
+    const signature = nacl.sign.detached(MESSAGE_BYTES, signer.secretKey);
+
+    expect(verifySolanaSignature({ address: signer.address, message: MESSAGE_BYTES, signature }))
+      .toEqual({ verified: true, encoder: "raw" });
+  });
+
+  it("rejects a signature from a different signer", () => {
+    const signer = fixtureSigner();
+    const other = fixtureSigner();
+
+    const result = verifySolanaSignature({
+      address: signer.address,
+      message: MESSAGE,
+      signature: signWith("raw", other),
+    });
+
+    expect(result).toEqual({
+      verified: false,
+      attempted: DEFAULT_SOLANA_ENCODERS.map(encoder => encoder.name),
+    });
+  });
+
+  it("rejects a signature over a different message", () => {
+    const signer = fixtureSigner();
+
+    const result = verifySolanaSignature({
+      address: signer.address,
+      message: `${MESSAGE}0`,
+      signature: signWith("offchain-v0-legacy", signer),
+    });
+
+    expect(result.verified).toBe(false);
+  });
+
+  it("only tries the requested encoders", () => {
+    const signer = fixtureSigner();
+
+    const result = verifySolanaSignature({
+      address: signer.address,
+      message: MESSAGE,
+      signature: signWith("legacy-domain", signer),
+      encoders: ["raw", "offchain-v0"],
+    });
+
+    expect(result).toEqual({ verified: false, attempted: ["raw", "offchain-v0"] });
+  });
+
+  it("throws on a malformed address or signature", () => {
+    const signer = fixtureSigner();
+    const signature = signWith("raw", signer);
+
+    expect(() => verifySolanaSignature({ address: "not-base58!", message: MESSAGE, signature }))
+      .toThrow(SignatureVerificationError);
+    expect(() => verifySolanaSignature({ address: signer.address, message: MESSAGE, signature: signature.slice(0, 20) }))
+      .toThrow(SignatureVerificationError);
+  });
+
+  it("tries registered encoders after the built-in ones", () => {
+    const signer = fixtureSigner();
+    registerSolanaEncoder({
+      name: "test-prefixed",
+      description: "PREFIX + MESSAGE",
+      encode: message => new Uint8Array([...new TextEncoder().encode("test:"), ...message]),
+    });
+
+    const result = verifySolanaSignature({
+      address: signer.address,
+      message: MESSAGE,
+      signature: signWith("test-prefixed", signer),
+    });
+
+    expect(result).toEqual({ verified: true, encoder: "test-prefixed" });
+    expect(getSolanaEncoders().at(-1)?.name).toBe("test-prefixed");
+  });
+});
+
+describe("off-chain message encoding", () => {
+  it("selects the narrowest format", () => {
+    expect(selectOffchainMessageFormat(MESSAGE_BYTES.filter(byte => byte !== 0x0a)))
+      .toBe(OffchainMessageFormat.RestrictedAscii);
+    expect(selectOffchainMessageFormat(MESSAGE_BYTES)).toBe(OffchainMessageFormat.LimitedUtf8);
+    expect(selectOffchainMessageFormat(new Uint8Array(1213).fill(0x41))).toBe(OffchainMessageFormat.ExtendedUtf8);
+  });
+
+  it("writes the v0 header with signers", () => {
+    const signer = fixtureSigner();
+    const encoded = encodeOffchainMessage(MESSAGE_BYTES, { signers: [signer.publicKey] });
+
+    expect(Buffer.from(encoded.subarray(0, 16)).toString("latin1")).toBe("\xffsolana offchain");
+    expect(encoded[16]).toBe(0); // version
+    expect(encoded.subarray(17, 49)).toEqual(new Uint8Array(32)); // default application domain
+    expect(encoded[49]).toBe(OffchainMessageFormat.LimitedUtf8);
+    expect(encoded[50]).toBe(1); // signer count
+    expect(encoded.subarray(51, 83)).toEqual(signer.publicKey);
+    expect(encoded[83] | (encoded[84] << 8)).toBe(MESSAGE_BYTES.length);
+    expect(encoded.subarray(85)).toEqual(MESSAGE_BYTES);
+  });
+
+  it("writes the legacy CLI / Ledger header", () => {
+    const encoded = encodeLegacyOffchainMessage(MESSAGE_BYTES);
+
+    expect(encoded[16]).toBe(0);
+    expect(encoded[17]).toBe(OffchainMessageFormat.LimitedUtf8);
+    expect(encoded[18] | (encoded[19] << 8)).toBe(MESSAGE_BYTES.length);
+    expect(encoded.subarray(20)).toEqual(MESSAGE_BYTES);
+  });
+});
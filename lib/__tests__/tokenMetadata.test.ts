@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import { MetadataDecodeError } from "@/lib/errors";
+import { verifyCollectionMembership } from "@/lib/solana";
+import { TokenStandard, decodeTokenMetadata } from "@/lib/tokenMetadata";
+import {
+  COLLECTION_ADDRESS,
+  MINT_ADDRESS,
+  OTHER_COLLECTION_ADDRESS,
+  UPDATE_AUTHORITY,
+  encodeMetadataAccount,
+  metadataAccountInfo,
+} from "./fixtures/tokenMetadata";
+
+describe("decodeTokenMetadata", () => {
+  it("decodes a verified collection member", () => {
+    const metadata = decodeTokenMetadata(encodeMetadataAccount());
+
+    expect(metadata).toMatchObject({
+      updateAuthority: UPDATE_AUTHORITY,
+      mint: MINT_ADDRESS,
+      name: "Wassie #564",
+      symbol: "WASSIE",
+      uri: "https://arweave.net/wassie-564.json",
+      sellerFeeBasisPoints: 500,
+      creators: [{ address: UPDATE_AUTHORITY, verified: true, share: 100 }],
+      editionNonce: 254,
+      tokenStandard: TokenStandard.NonFungible,
+      collection: { key: COLLECTION_ADDRESS, verified: true },
+    });
+  });
+
+  it("decodes an unverified collection", () => {
+    const metadata = decodeTokenMetadata(
+      encodeMetadataAccount({ collection: { key: COLLECTION_ADDRESS, verified: false } })
+    );
+
+    expect(metadata.collection).toEqual({ key: COLLECTION_ADDRESS, verified: false });
+  });
+
+  it("decodes a missing collection as null", () => {
+    expect(decodeTokenMetadata(encodeMetadataAccount({ collection: null })).collection).toBeNull();
+  });
+
+  it("rejects other account types", () => {
+    const data = encodeMetadataAccount();
+    data[0] = 6; // Key::MasterEditionV2
+
+    expect(() => decodeTokenMetadata(data)).toThrow(MetadataDecodeError);
+  });
+
+  it("rejects truncated accounts", () => {
+    expect(() => decodeTokenMetadata(encodeMetadataAccount().subarray(0, 80))).toThrow(MetadataDecodeError);
+  });
+});
+
+describe("verifyCollectionMembership", () => {
+  it("accepts a verified member of the collection", () => {
+    const account = metadataAccountInfo(encodeMetadataAccount());
+
+    expect(verifyCollectionMembership(MINT_ADDRESS, account, COLLECTION_ADDRESS)).toEqual({
+      verified: true,
+      name: "Wassie #564",
+      mintAddress: MINT_ADDRESS,
+    });
+  });
+
+  it("rejects an unverified collection claim", () => {
+    const account = metadataAccountInfo(
+      encodeMetadataAccount({ collection: { key: COLLECTION_ADDRESS, verified: false } })
+    );
+
+    expect(verifyCollectionMembership(MINT_ADDRESS, account, COLLECTION_ADDRESS)).toBe(false);
+  });
+
+  it("rejects metadata without a collection", () => {
+    const account = metadataAccountInfo(encodeMetadataAccount({ collection: null }));
+
+    expect(verifyCollectionMembership(MINT_ADDRESS, account, COLLECTION_ADDRESS)).toBe(false);
+  });
+
+  it("rejects a verified member of another collection", () => {
+    const account = metadataAccountInfo(
+      encodeMetadataAccount({ collection: { key: OTHER_COLLECTION_ADDRESS, verified: true } })
+    );
+
+    expect(verifyCollectionMembership(MINT_ADDRESS, account, COLLECTION_ADDRESS)).toBe(false);
+  });
+
+  it("rejects metadata for a different mint", () => {
+    const account = metadataAccountInfo(encodeMetadataAccount({ mint: OTHER_COLLECTION_ADDRESS }));
+
+    expect(verifyCollectionMembership(MINT_ADDRESS, account, COLLECTION_ADDRESS)).toBe(false);
+  });
+
+  it("rejects accounts not owned by the Token Metadata program", () => {
+    const account = metadataAccountInfo(encodeMetadataAccount(), PublicKey.default);
+
+    expect(verifyCollectionMembership(MINT_ADDRESS, account, COLLECTION_ADDRESS)).toBe(false);
+    expect(verifyCollectionMembership(MINT_ADDRESS, null, COLLECTION_ADDRESS)).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  AdminAuthError,
+  AdminForbiddenError,
+  NonceError,
+  SessionTokenError,
+  SignatureVerificationError,
+} from "@/lib/errors";
+import {
+  ADMIN_API_KEY_PREFIX,
+  hasAdminRole,
+  hashAdminApiKey,
+  isAdminRole,
+  type AdminRole,
+} from "@/lib/adminRoles";
+import { verifyAdminSessionToken } from "@/lib/session";
+import { consumeEvmNonce, verifyEvmOwnership } from "@/lib/evmOwnership";
+import { getSignInConfig, parseSignInMessage } from "@/lib/signatures/signIn";
+import { isEvmAddress } from "@/lib/signatures/siwe";
+import { verifySiwsMessage } from "@/lib/signatures/siws";
+import { verifySolanaSignature } from "@/lib/signatures/solana";
+
+/**
+ * Authentication for app/api/admin/*
+ *
+ * Requests carry `Authorization: Bearer <credential>`, where the credential is
+ * either an admin API key (AdminApiKey) or an admin session token issued by
+ * /api/admin/session after an AdminWallet signed a sign-in message from
+ * /api/nonce. The role is looked up on every request, so revoking a key or
+ * removing a wallet takes effect immediately.
+ */
+
+export interface AdminIdentity {
+  type: "api-key" | "wallet";
+  /** AdminApiKey.id or AdminWallet.address */
+  id: string;
+  name: string;
+  role: AdminRole;
+}
+
+/**
+ * Stable label for logs and AdminApiKey.createdBy, e.g. "wallet:<address>"
+ */
+export function describeAdmin(admin: AdminIdentity): string {
+  return `${admin.type}:${admin.id}`;
+}
+
+function getBearerCredential(req: NextRequest): string | null {
+  const match = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+async function authenticateApiKey(key: string): Promise<AdminIdentity> {
+  const apiKey = await prisma.adminApiKey.findUnique({
+    where: { keyHash: hashAdminApiKey(key) },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    throw new AdminAuthError("Invalid or revoked admin API key");
+  }
+  if (!isAdminRole(apiKey.role)) {
+    throw new AdminAuthError(`Admin API key has an unknown role: ${apiKey.role}`);
+  }
+
+  await prisma.adminApiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return { type: "api-key", id: apiKey.id, name: apiKey.name, role: apiKey.role };
+}
+
+async function authenticateSession(token: string): Promise<AdminIdentity> {
+  let address: string;
+  try {
+    address = verifyAdminSessionToken(token).sub;
+  } catch (error) {
+    if (error instanceof SessionTokenError) {
+      throw new AdminAuthError(error.message);
+    }
+    throw error;
+  }
+
+  const wallet = await prisma.adminWallet.findUnique({ where: { address } });
+  if (!wallet || !isAdminRole(wallet.role)) {
+    throw new AdminAuthError("Wallet is no longer an admin");
+  }
+
+  return { type: "wallet", id: wallet.address, name: wallet.name, role: wallet.role };
+}
+
+/**
+ * @throws AdminAuthError if the request has no valid admin credential
+ */
+export async function authenticateAdmin(req: NextRequest): Promise<AdminIdentity> {
+  const credential = getBearerCredential(req);
+  if (!credential) {
+    throw new AdminAuthError();
+  }
+
+  return credential.startsWith(ADMIN_API_KEY_PREFIX)
+    ? authenticateApiKey(credential)
+    : authenticateSession(credential);
+}
+
+/**
+ * Wraps an admin route handler: 401 without a valid credential,
+ * 403 when the admin's role is below `requiredRole`
+ */
+export function withAdminAuth(
+  requiredRole: AdminRole,
+  handler: (req: NextRequest, admin: AdminIdentity) => Promise<Response>
+): (req: NextRequest) => Promise<Response> {
+  return async (req: NextRequest) => {
+    const path = new URL(req.url).pathname;
+
+    try {
+      const admin = await authenticateAdmin(req);
+      if (!hasAdminRole(admin.role, requiredRole)) {
+        throw new AdminForbiddenError(requiredRole);
+      }
+
+      console.log(`🔐 ${describeAdmin(admin)} (${admin.role}) ${req.method} ${path}`);
+      return await handler(req, admin);
+    } catch (error) {
+      if (error instanceof AdminAuthError) {
+        console.log(`🚫 Admin authentication failed for ${req.method} ${path}: ${error.message}`);
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="admin"' } }
+        );
+      }
+      if (error instanceof AdminForbiddenError) {
+        return NextResponse.json(
+          { error: error.message, requiredRole: error.requiredRole },
+          { status: 403 }
+        );
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Verifies an admin wallet sign-in: a SIWS (Solana) or SIWE (EVM) message
+ * issued by /api/nonce, signed by `address`. Consumes the nonce on success.
+ * @returns the AdminWallet address (EVM addresses lowercased)
+ * @throws SignInMessageError, NonceError or SignatureVerificationError for a bad proof
+ * @throws AdminAuthError if the wallet isn't an admin
+ */
+export async function verifyAdminWalletSignIn({
+  address,
+  message,
+  signature,
+  requestUrl,
+}: {
+  address: string;
+  message: string;
+  signature: string;
+  requestUrl: string;
+}): Promise<string> {
+  if (isEvmAddress(address)) {
+    const proof = await verifyEvmOwnership({ evmAddress: address, message, signature, requestUrl });
+    const adminAddress = address.toLowerCase();
+
+    await assertAdminWallet(adminAddress);
+    await consumeEvmNonce(prisma, proof.nonce, address);
+    return adminAddress;
+  }
+
+  const { nonce } = parseSignInMessage(message);
+  const siwsMessage = verifySiwsMessage(message, {
+    address,
+    config: getSignInConfig(requestUrl),
+    nonce,
+  });
+
+  const nonceRecord = await prisma.nonce.findUnique({ where: { nonce } });
+  if (
+    !nonceRecord ||
+    nonceRecord.address !== address ||
+    nonceRecord.used ||
+    new Date() > nonceRecord.expiresAt ||
+    siwsMessage.requestId !== nonceRecord.requestId ||
+    siwsMessage.expirationTime !== nonceRecord.expiresAt.toISOString()
+  ) {
+    throw new NonceError("Nonce was not issued for this message, or is used or expired");
+  }
+
+  const result = verifySolanaSignature({ address, message, signature });
+  if (!result.verified) {
+    throw new SignatureVerificationError("Invalid Solana signature");
+  }
+
+  await assertAdminWallet(address);
+
+  const { count } = await prisma.nonce.updateMany({
+    where: { nonce, used: false },
+    data: { used: true },
+  });
+  if (count === 0) {
+    throw new NonceError("Nonce already used");
+  }
+
+  return address;
+}
+
+async function assertAdminWallet(address: string): Promise<void> {
+  const wallet = await prisma.adminWallet.findUnique({ where: { address } });
+  if (!wallet) {
+    console.log(`🚫 Admin sign-in rejected for ${address}: not an admin wallet`);
+    throw new AdminAuthError("Wallet is not an admin");
+  }
+}
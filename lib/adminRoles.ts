@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Admin roles and API keys, shared by the admin API and the CLI scripts
+ *
+ * Roles are ordered - each includes the ones before it:
+ * - viewer: read-only summaries and history (wallet-summary, link-history)
+ * - operator: bulk exports and corrections of the link data (export-*, link-override)
+ * - owner: manages admin API keys
+ */
+
+export const ADMIN_ROLES = ["viewer", "operator", "owner"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+// Lets authenticateAdmin tell API keys from session tokens, and secret scanners find leaked keys
+export const ADMIN_API_KEY_PREFIX = "wla_";
+
+// Characters of the key stored in clear (AdminApiKey.keyPrefix) to recognise it in listings
+const KEY_PREFIX_LENGTH = ADMIN_API_KEY_PREFIX.length + 6;
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `role` grants everything `required` does
+ */
+export function hasAdminRole(role: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+export function hashAdminApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Generates a new API key. Only the hash and prefix are stored -
+ * the key itself must be shown to the caller once and then discarded.
+ */
+export function generateAdminApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${ADMIN_API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, keyHash: hashAdminApiKey(key), keyPrefix: key.slice(0, KEY_PREFIX_LENGTH) };
+}
@@ -0,0 +1,153 @@
+import { PublicKey } from "@solana/web3.js";
+import { MetadataDecodeError } from "@/lib/errors";
+
+/**
+ * Borsh serialization of Solana account data: BorshReader decodes accounts,
+ * BorshWriter encodes the structs whose hashes programs commit to
+ */
+
+/**
+ * Sequential reader for Borsh-serialized Solana account data
+ * @throws MetadataDecodeError on truncated or malformed data
+ */
+export class BorshReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  private take(length: number): Uint8Array {
+    if (length > this.remaining) {
+      throw new MetadataDecodeError(`Account data truncated at offset ${this.offset}`);
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  u8(): number {
+    return this.take(1)[0];
+  }
+
+  u16(): number {
+    const bytes = this.take(2);
+    return bytes[0] | (bytes[1] << 8);
+  }
+
+  u32(): number {
+    const bytes = this.take(4);
+    return (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16)) + bytes[3] * 0x1000000;
+  }
+
+  bool(): boolean {
+    const value = this.u8();
+    if (value > 1) {
+      throw new MetadataDecodeError(`Invalid bool value ${value}`);
+    }
+    return value === 1;
+  }
+
+  pubkey(): string {
+    return new PublicKey(this.take(32)).toBase58();
+  }
+
+  string(): string {
+    const length = this.u32();
+    // Fixed-size fields are padded with null bytes
+    return Buffer.from(this.take(length)).toString("utf8").replace(/\0/g, "");
+  }
+
+  /**
+   * Option<T>. Accounts created before a field existed simply end (or are
+   * zero-padded) where it would be, so a missing tag decodes as None.
+   */
+  option<T>(read: () => T): T | null {
+    if (this.remaining === 0) {
+      return null;
+    }
+    const tag = this.u8();
+    if (tag === 0) {
+      return null;
+    }
+    if (tag !== 1) {
+      throw new MetadataDecodeError(`Invalid option tag ${tag}`);
+    }
+    return read();
+  }
+
+  vec<T>(read: () => T): T[] {
+    const length = this.u32();
+    return Array.from({ length }, read);
+  }
+}
+
+/**
+ * Sequential writer producing Borsh-serialized bytes
+ */
+export class BorshWriter {
+  private readonly chunks: Uint8Array[] = [];
+
+  private push(bytes: Uint8Array | number[]): this {
+    this.chunks.push(Uint8Array.from(bytes));
+    return this;
+  }
+
+  u8(value: number): this {
+    return this.push([value & 0xff]);
+  }
+
+  u16(value: number): this {
+    return this.push([value & 0xff, (value >> 8) & 0xff]);
+  }
+
+  u32(value: number): this {
+    return this.push([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff]);
+  }
+
+  u64(value: number | bigint): this {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+    return this.push(bytes);
+  }
+
+  bool(value: boolean): this {
+    return this.u8(value ? 1 : 0);
+  }
+
+  pubkey(address: string): this {
+    return this.push(new PublicKey(address).toBytes());
+  }
+
+  string(value: string): this {
+    const bytes = new TextEncoder().encode(value);
+    return this.u32(bytes.length).push(bytes);
+  }
+
+  option<T>(value: T | null | undefined, write: (value: T) => void): this {
+    if (value === null || value === undefined) {
+      return this.u8(0);
+    }
+    this.u8(1);
+    write(value);
+    return this;
+  }
+
+  vec<T>(items: T[], write: (item: T) => void): this {
+    this.u32(items.length);
+    items.forEach(write);
+    return this;
+  }
+
+  toBytes(): Uint8Array {
+    const bytes = new Uint8Array(this.chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+}
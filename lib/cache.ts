@@ -0,0 +1,210 @@
+import { isRedisAvailable, redisCacheBackend } from "@/lib/redis";
+
+/**
+ * String key/value cache with TTLs
+ *
+ * Redis is used while it is connected; without REDIS_URL, or while Redis is
+ * down, calls go to a bounded in-process LRU instead. The in-process cache is
+ * per instance, so it only saves work - never rely on it for cross-instance
+ * state. Deletes go to both backends so an entry removed during an outage
+ * doesn't come back with Redis.
+ */
+
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, expirationSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheBackendStats {
+  hits: number;
+  misses: number;
+  sets: number;
+  deletes: number;
+  errors: number;
+}
+
+export interface CacheStats {
+  /** Backend new reads and writes currently go to */
+  backend: string;
+  /** hits / (hits + misses) across backends, null before the first read */
+  hitRate: number | null;
+  backends: Record<string, CacheBackendStats>;
+}
+
+export interface Cache {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, expirationSeconds?: number): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+  stats(): CacheStats;
+}
+
+const MEMORY_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * In-process LRU backend. Expired entries are dropped when read or evicted.
+ * @param now - clock, injectable for tests
+ */
+export function createMemoryCacheBackend(
+  maxEntries = MEMORY_CACHE_MAX_ENTRIES,
+  now: () => number = Date.now
+): CacheBackend {
+  // Map iteration order is insertion order - re-inserting on read keeps the oldest entry first
+  const entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      if (entry.expiresAt !== null && entry.expiresAt <= now()) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, expirationSeconds) {
+      entries.delete(key);
+      entries.set(key, {
+        value,
+        expiresAt: expirationSeconds ? now() + expirationSeconds * 1000 : null,
+      });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+function emptyStats(): CacheBackendStats {
+  return { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0 };
+}
+
+/**
+ * Cache over `primary` while `isPrimaryAvailable()`, `fallback` otherwise.
+ * A failing primary call is retried on the fallback.
+ */
+export function createCache({
+  primary,
+  fallback,
+  isPrimaryAvailable,
+}: {
+  primary: CacheBackend;
+  fallback: CacheBackend;
+  isPrimaryAvailable: () => boolean;
+}): Cache {
+  const stats: Record<string, CacheBackendStats> = {
+    [primary.name]: emptyStats(),
+    [fallback.name]: emptyStats(),
+  };
+
+  const currentBackend = () => (isPrimaryAvailable() ? primary : fallback);
+
+  async function withFallback<T>(operation: string, fn: (backend: CacheBackend) => Promise<T>): Promise<{ backend: CacheBackend; result: T }> {
+    const backend = currentBackend();
+    try {
+      return { backend, result: await fn(backend) };
+    } catch (error) {
+      stats[backend.name].errors++;
+      if (backend === fallback) {
+        throw error;
+      }
+      console.error(`Cache ${operation} error on ${backend.name}, using ${fallback.name}:`, error);
+      return { backend: fallback, result: await fn(fallback) };
+    }
+  }
+
+  return {
+    async get(key) {
+      try {
+        const { backend, result } = await withFallback("get", backend => backend.get(key));
+        stats[backend.name][result === null ? "misses" : "hits"]++;
+        return result;
+      } catch (error) {
+        console.error("Cache get error:", error);
+        return null;
+      }
+    },
+
+    async set(key, value, expirationSeconds) {
+      try {
+        const { backend } = await withFallback("set", backend => backend.set(key, value, expirationSeconds));
+        stats[backend.name].sets++;
+        return true;
+      } catch (error) {
+        console.error("Cache set error:", error);
+        return false;
+      }
+    },
+
+    async delete(key) {
+      const results = await Promise.all(
+        [primary, fallback].map(async backend => {
+          if (backend === primary && !isPrimaryAvailable()) {
+            return false;
+          }
+          try {
+            await backend.delete(key);
+            stats[backend.name].deletes++;
+            return true;
+          } catch (error) {
+            stats[backend.name].errors++;
+            console.error(`Cache delete error on ${backend.name}:`, error);
+            return false;
+          }
+        })
+      );
+      return results.some(Boolean);
+    },
+
+    stats() {
+      const totals = Object.values(stats).reduce(
+        (sum, backend) => ({ hits: sum.hits + backend.hits, misses: sum.misses + backend.misses }),
+        { hits: 0, misses: 0 }
+      );
+      const reads = totals.hits + totals.misses;
+
+      return {
+        backend: currentBackend().name,
+        hitRate: reads > 0 ? Math.round((totals.hits / reads) * 1000) / 1000 : null,
+        backends: Object.fromEntries(Object.entries(stats).map(([name, backend]) => [name, { ...backend }])),
+      };
+    },
+  };
+}
+
+const cache = createCache({
+  primary: redisCacheBackend,
+  fallback: createMemoryCacheBackend(),
+  isPrimaryAvailable: isRedisAvailable,
+});
+
+// Get value from the cache
+export function getCache(key: string): Promise<string | null> {
+  return cache.get(key);
+}
+
+// Set value in the cache with expiration (in seconds)
+export function setCache(key: string, value: string, expirationSeconds?: number): Promise<boolean> {
+  return cache.set(key, value, expirationSeconds);
+}
+
+// Delete value from the cache
+export function deleteCache(key: string): Promise<boolean> {
+  return cache.delete(key);
+}
+
+// Hit/miss counters for /api/health
+export function getCacheStats(): CacheStats {
+  return cache.stats();
+}
@@ -0,0 +1,78 @@
+import type { Collection } from "@prisma/client";
+import { CampaignClosedError } from "@/lib/errors";
+
+/**
+ * Linking window of a collection (campaign)
+ *
+ * verify-solana only issues verification tokens while the campaign is open.
+ * link-evm also accepts links during the grace period after closesAt, so
+ * holders who verified just before the deadline can finish linking.
+ * A collection without opensAt / closesAt is open on that side.
+ */
+
+export type CampaignState = "upcoming" | "open" | "grace" | "closed";
+
+/** What the campaign check is for - only linking is allowed during the grace period */
+export type CampaignAction = "verify" | "link";
+
+export interface CampaignStatus {
+  collection: string;
+  name: string;
+  state: CampaignState;
+  opensAt: string | null;
+  closesAt: string | null;
+  /** End of the grace period (null when the campaign doesn't close) */
+  graceEndsAt: string | null;
+  /** Server time the state was computed at, so clients can count down without trusting their clock */
+  now: string;
+}
+
+type CampaignWindow = Pick<Collection, "slug" | "name" | "opensAt" | "closesAt" | "gracePeriodSeconds">;
+
+/**
+ * Current state of a collection's linking window
+ */
+export function getCampaignStatus(collection: CampaignWindow, now = new Date()): CampaignStatus {
+  const { opensAt, closesAt } = collection;
+  const graceEndsAt = closesAt ? new Date(closesAt.getTime() + collection.gracePeriodSeconds * 1000) : null;
+
+  let state: CampaignState;
+  if (opensAt && now < opensAt) {
+    state = "upcoming";
+  } else if (!closesAt || now < closesAt) {
+    state = "open";
+  } else if (graceEndsAt && now < graceEndsAt) {
+    state = "grace";
+  } else {
+    state = "closed";
+  }
+
+  return {
+    collection: collection.slug,
+    name: collection.name,
+    state,
+    opensAt: opensAt?.toISOString() ?? null,
+    closesAt: closesAt?.toISOString() ?? null,
+    graceEndsAt: graceEndsAt?.toISOString() ?? null,
+    now: now.toISOString(),
+  };
+}
+
+/**
+ * @throws CampaignClosedError unless the campaign accepts the action right now
+ */
+export function assertCampaignOpen(collection: CampaignWindow, action: CampaignAction): CampaignStatus {
+  const status = getCampaignStatus(collection);
+
+  if (status.state === "open" || (status.state === "grace" && action === "link")) {
+    return status;
+  }
+
+  const message =
+    status.state === "upcoming"
+      ? `${collection.name} linking opens at ${status.opensAt}`
+      : `${collection.name} linking closed at ${status.closesAt}`;
+
+  console.log(`🚫 Rejected ${action} for ${collection.slug}: campaign is ${status.state}`);
+  throw new CampaignClosedError(status, message);
+}
@@ -0,0 +1,44 @@
+/**
+ * Public collection config shared by the API (/api/collections) and the UI.
+ * Kept free of server imports so client components can use it.
+ */
+
+export interface CollectionInfo {
+  slug: string;
+  name: string;
+  address: string;
+  minTokenId: number;
+  maxTokenId: number;
+  imageBaseUrl: string | null;
+  opensAt: string | null;
+  closesAt: string | null;
+  gracePeriodSeconds: number;
+}
+
+/**
+ * Display name of a token, e.g. "Wassieverse #564"
+ */
+export function getTokenName(collection: Pick<CollectionInfo, "name">, tokenId: string): string {
+  return `${collection.name} #${tokenId}`;
+}
+
+/**
+ * Token image from the collection's image base, or null if it has none
+ */
+export function getTokenImageUrl(collection: Pick<CollectionInfo, "imageBaseUrl">, tokenId: string): string | null {
+  if (!collection.imageBaseUrl) {
+    return null;
+  }
+  return `${collection.imageBaseUrl.replace(/\/+$/, "")}/${tokenId}.png`;
+}
+
+/**
+ * Whether a token ID is a whole number inside the collection's range
+ */
+export function isTokenIdInRange(
+  collection: Pick<CollectionInfo, "minTokenId" | "maxTokenId">,
+  tokenId: string | number
+): boolean {
+  const value = typeof tokenId === "number" ? tokenId : /^\d+$/.test(tokenId.trim()) ? Number(tokenId) : NaN;
+  return Number.isInteger(value) && value >= collection.minTokenId && value <= collection.maxTokenId;
+}
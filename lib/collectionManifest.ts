@@ -0,0 +1,86 @@
+import { prisma } from "@/lib/prisma";
+import { ManifestError, UnknownMintError } from "@/lib/errors";
+
+/**
+ * Collection manifest: the authoritative mint -> token ID map of a collection,
+ * stored in the CollectionMint table. Import it from the collection's hashlist
+ * with scripts/import-hashlist.ts.
+ */
+
+// Re-read the table at most this often so a new import is picked up without a restart
+const MANIFEST_TTL_MS = 5 * 60 * 1000;
+
+const cachedManifests = new Map<string, { mints: Map<string, string>; loadedAt: number }>();
+const manifestPromises = new Map<string, Promise<Map<string, string>>>();
+
+async function loadManifest(collectionId: string): Promise<Map<string, string>> {
+  const rows = await prisma.collectionMint.findMany({
+    where: { collectionId },
+    select: { mintAddress: true, tokenId: true },
+  });
+
+  if (rows.length === 0) {
+    throw new ManifestError("Collection manifest is empty - import the hashlist with scripts/import-hashlist.ts");
+  }
+
+  console.log(`📒 Loaded collection manifest with ${rows.length} mints`);
+  return new Map(rows.map(row => [row.mintAddress, row.tokenId]));
+}
+
+/**
+ * A collection's manifest as a mint -> token ID map, cached in-process for MANIFEST_TTL_MS
+ * @throws ManifestError if the collection has no imported mints
+ */
+export async function getCollectionManifest(collectionId: string): Promise<Map<string, string>> {
+  const cached = cachedManifests.get(collectionId);
+  if (cached && Date.now() - cached.loadedAt < MANIFEST_TTL_MS) {
+    return cached.mints;
+  }
+
+  let manifestPromise = manifestPromises.get(collectionId);
+  if (!manifestPromise) {
+    manifestPromise = loadManifest(collectionId)
+      .then(mints => {
+        cachedManifests.set(collectionId, { mints, loadedAt: Date.now() });
+        return mints;
+      })
+      .finally(() => {
+        manifestPromises.delete(collectionId);
+      });
+    manifestPromises.set(collectionId, manifestPromise);
+  }
+  return manifestPromise;
+}
+
+/**
+ * Double-checks NFTs against the collection's CollectionMint allowlist straight
+ * from the database, bypassing the in-process manifest and any cached NFT lists:
+ * every mint must be listed in this collection, with the same token ID.
+ * @throws UnknownMintError listing every mint that isn't
+ */
+export async function assertMintsAllowlisted(
+  collectionId: string,
+  nfts: { mintAddress: string; tokenId: string }[]
+): Promise<void> {
+  if (nfts.length === 0) {
+    return;
+  }
+
+  const rows = await prisma.collectionMint.findMany({
+    where: {
+      collectionId,
+      mintAddress: { in: nfts.map(nft => nft.mintAddress) },
+    },
+    select: { mintAddress: true, tokenId: true },
+  });
+  const allowlist = new Map(rows.map(row => [row.mintAddress, row.tokenId]));
+
+  const rejected = nfts
+    .filter(nft => allowlist.get(nft.mintAddress) !== nft.tokenId)
+    .map(nft => nft.mintAddress);
+
+  if (rejected.length > 0) {
+    console.error(`❌ ${rejected.length} NFT(s) failed the collection allowlist check: ${rejected.join(", ")}`);
+    throw new UnknownMintError(rejected);
+  }
+}
@@ -0,0 +1,53 @@
+import type { Collection } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { CollectionInfo } from "@/lib/collectionInfo";
+
+/**
+ * Collections (campaigns) served by this deployment
+ *
+ * API routes take an optional `collection` slug. Without one the
+ * DEFAULT_COLLECTION_SLUG collection is used, so existing clients keep working.
+ */
+
+export const DEFAULT_COLLECTION_SLUG = process.env.DEFAULT_COLLECTION_SLUG || "wassieverse";
+
+/**
+ * Looks up a collection by slug (the default collection when no slug is given)
+ * @returns The collection, or null if there is none with that slug
+ */
+export async function findCollection(slug?: string | null): Promise<Collection | null> {
+  const resolvedSlug = typeof slug === "string" && slug.trim() !== "" ? slug.trim().toLowerCase() : DEFAULT_COLLECTION_SLUG;
+  return prisma.collection.findUnique({ where: { slug: resolvedSlug } });
+}
+
+export async function findCollectionById(id: string): Promise<Collection | null> {
+  return prisma.collection.findUnique({ where: { id } });
+}
+
+export async function listCollections(): Promise<Collection[]> {
+  return prisma.collection.findMany({ orderBy: { createdAt: "asc" } });
+}
+
+/**
+ * The public part of a collection's config, as served to the UI
+ */
+export function toCollectionInfo(collection: Collection): CollectionInfo {
+  return {
+    slug: collection.slug,
+    name: collection.name,
+    address: collection.address,
+    minTokenId: collection.minTokenId,
+    maxTokenId: collection.maxTokenId,
+    imageBaseUrl: collection.imageBaseUrl,
+    opensAt: collection.opensAt?.toISOString() ?? null,
+    closesAt: collection.closesAt?.toISOString() ?? null,
+    gracePeriodSeconds: collection.gracePeriodSeconds,
+  };
+}
+
+/**
+ * 404 message for an unknown `collection` parameter
+ */
+export function unknownCollectionMessage(slug?: string | null): string {
+  return `Unknown collection: ${typeof slug === "string" && slug.trim() !== "" ? slug.trim() : DEFAULT_COLLECTION_SLUG}`;
+}
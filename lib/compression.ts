@@ -0,0 +1,315 @@
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { keccak256 } from "viem";
+import { chunk, mapWithConcurrency, withRetry } from "@/lib/async";
+import { getAssetProofs, type DasAsset, type DasAssetProof } from "@/lib/das";
+import { BorshWriter } from "@/lib/borsh";
+import { MetadataDecodeError } from "@/lib/errors";
+import { TokenStandard } from "@/lib/tokenMetadata";
+import { withRpcConnection } from "@/lib/solanaProvider";
+
+/**
+ * Ownership verification for Bubblegum compressed NFTs (cNFTs)
+ *
+ * cNFTs only exist as leaves of an on-chain concurrent Merkle tree, so the
+ * indexer (DAS) is the only way to find them. Instead of trusting its
+ * ownership data, we rebuild the leaf from the asset's ID, owner, delegate
+ * and hashes, walk the proof returned by getAssetProof, and require the
+ * result to equal the tree's current root read directly from the chain.
+ *
+ * The leaf commits to the metadata through data_hash and creator_hash. We
+ * don't take those from the indexer: both are recomputed from the asset's
+ * metadata, with the collection we are checking for as its verified
+ * collection. A leaf therefore only matches if the asset really is a verified
+ * member of that collection - a lying indexer can neither fake ownership nor
+ * membership, only withhold assets.
+ */
+
+export const BUBBLEGUM_PROGRAM_ID = new PublicKey("BGUMAp9Gq7iTEuizy4pqaxsTyUCBK68MDfK752saRPUY");
+
+// Programs that own Bubblegum trees (SPL Account Compression and its Metaplex fork)
+const ACCOUNT_COMPRESSION_PROGRAM_IDS = [
+  "cmtDvXumGCrqC1Age74AVPhSRVXJMd8PJS91L8KbNCK",
+  "mcmt6YrQEMKw8Mw43FmpRLmf7BqRnFMKmAcbxE3xkAW",
+];
+
+// Bubblegum LeafSchema::V1 version byte
+const LEAF_SCHEMA_V1 = 1;
+
+// Bubblegum TokenProgramVersion::Original (mint_v1 only mints with the original token program)
+const TOKEN_PROGRAM_VERSION_ORIGINAL = 0;
+
+// SPL Account Compression: account type + header version + ConcurrentMerkleTreeHeaderDataV1
+const MERKLE_TREE_ACCOUNT_TYPE = 1;
+const MERKLE_TREE_HEADER_SIZE = 2 + 4 + 4 + 32 + 8 + 1 + 5;
+
+// getAssetProofBatch / getMultipleAccountsInfo chunk size
+const PROOF_BATCH_SIZE = 100;
+const PROOF_BATCH_CONCURRENCY = 4;
+
+// A tree can change between fetching the proof and the root - re-fetch both for failures
+const VERIFY_ATTEMPTS = 2;
+
+function toBytes(base58: string): Uint8Array {
+  return bs58.decode(base58);
+}
+
+function hashv(...parts: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return keccak256(data, "bytes");
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+/**
+ * Reads the current root and depth of a concurrent Merkle tree account
+ * @throws MetadataDecodeError if the account is not a Merkle tree
+ */
+export function decodeMerkleTreeRoot(data: Uint8Array): { maxDepth: number; root: Uint8Array } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (data.length < MERKLE_TREE_HEADER_SIZE + 24 || data[0] !== MERKLE_TREE_ACCOUNT_TYPE) {
+    throw new MetadataDecodeError("Not a concurrent Merkle tree account");
+  }
+
+  const maxBufferSize = view.getUint32(2, true);
+  const maxDepth = view.getUint32(6, true);
+
+  // Tree body: sequence_number u64, active_index u64, buffer_size u64, change_logs[...]
+  const activeIndex = Number(view.getBigUint64(MERKLE_TREE_HEADER_SIZE + 8, true));
+  if (activeIndex >= maxBufferSize) {
+    throw new MetadataDecodeError("Invalid Merkle tree active index");
+  }
+
+  // ChangeLog: root [u8; 32], path [[u8; 32]; depth], index u32, padding u32
+  const changeLogSize = 32 + 32 * maxDepth + 8;
+  const rootOffset = MERKLE_TREE_HEADER_SIZE + 24 + activeIndex * changeLogSize;
+  if (rootOffset + 32 > data.length) {
+    throw new MetadataDecodeError("Merkle tree account truncated");
+  }
+
+  return { maxDepth, root: data.slice(rootOffset, rootOffset + 32) };
+}
+
+/**
+ * Bubblegum creator_hash: keccak of every creator's address, verified flag and share
+ */
+export function computeCreatorHash(creators: NonNullable<DasAsset["creators"]>): Uint8Array {
+  return hashv(
+    ...creators.map(creator => new BorshWriter().pubkey(creator.address).bool(creator.verified).u8(creator.share).toBytes())
+  );
+}
+
+/**
+ * Bubblegum data_hash: keccak(keccak(borsh(MetadataArgs)) + seller_fee_basis_points)
+ *
+ * MetadataArgs is rebuilt from the DAS fields the same way Metaplex's
+ * getAssetWithProof does, except that the verified collection is
+ * `collectionAddress` instead of whatever the indexer groups the asset under.
+ * @returns null if the indexer didn't report a field the hash covers
+ */
+export function computeDataHash(asset: DasAsset, collectionAddress: string): Uint8Array | null {
+  const { content, royalty, creators, mutable } = asset;
+  if (content?.json_uri === undefined || !royalty || !creators || mutable === undefined) {
+    return null;
+  }
+
+  const metadataArgs = new BorshWriter();
+  metadataArgs
+    .string(content.metadata?.name ?? "")
+    .string(content.metadata?.symbol ?? "")
+    .string(content.json_uri)
+    .u16(royalty.basis_points)
+    .bool(royalty.primary_sale_happened)
+    .bool(mutable)
+    .option(asset.supply?.edition_nonce, nonce => metadataArgs.u8(nonce))
+    .option(TokenStandard.NonFungible, tokenStandard => metadataArgs.u8(tokenStandard))
+    .option(collectionAddress, key => metadataArgs.bool(true).pubkey(key))
+    .option(null, () => undefined) // uses
+    .u8(TOKEN_PROGRAM_VERSION_ORIGINAL)
+    .vec(creators, creator => metadataArgs.pubkey(creator.address).bool(creator.verified).u8(creator.share));
+
+  return hashv(keccak256(metadataArgs.toBytes(), "bytes"), new BorshWriter().u16(royalty.basis_points).toBytes());
+}
+
+/**
+ * Hash of a Bubblegum LeafSchema::V1 leaf
+ */
+export function computeLeafHash({
+  assetId,
+  owner,
+  delegate,
+  nonce,
+  dataHash,
+  creatorHash,
+}: {
+  assetId: string;
+  owner: string;
+  delegate: string;
+  nonce: number;
+  dataHash: Uint8Array;
+  creatorHash: Uint8Array;
+}): Uint8Array {
+  const nonceBytes = new Uint8Array(8);
+  new DataView(nonceBytes.buffer).setBigUint64(0, BigInt(nonce), true);
+
+  return hashv(
+    new Uint8Array([LEAF_SCHEMA_V1]),
+    toBytes(assetId),
+    toBytes(owner),
+    toBytes(delegate),
+    nonceBytes,
+    dataHash,
+    creatorHash
+  );
+}
+
+/**
+ * Walks a Merkle proof from the leaf at `leafIndex` and returns the resulting root
+ */
+export function computeMerkleRoot(leaf: Uint8Array, proof: Uint8Array[], leafIndex: number): Uint8Array {
+  let node = leaf;
+  proof.forEach((sibling, level) => {
+    node = Math.floor(leafIndex / 2 ** level) % 2 === 0 ? hashv(node, sibling) : hashv(sibling, node);
+  });
+  return node;
+}
+
+/**
+ * Bubblegum asset ID: PDA of ("asset", tree, leaf nonce)
+ */
+function getAssetId(tree: string, nonce: number): string {
+  const nonceBytes = Buffer.alloc(8);
+  nonceBytes.writeBigUInt64LE(BigInt(nonce));
+  const [assetId] = PublicKey.findProgramAddressSync(
+    [Buffer.from("asset"), new PublicKey(tree).toBuffer(), nonceBytes],
+    BUBBLEGUM_PROGRAM_ID
+  );
+  return assetId.toBase58();
+}
+
+/**
+ * Checks that `asset` is a leaf owned by `owner` whose metadata carries
+ * `collectionAddress` as its verified collection, under the tree's current root
+ */
+export function verifyCompressedAssetProof(
+  asset: DasAsset,
+  owner: string,
+  collectionAddress: string,
+  proof: DasAssetProof | undefined,
+  tree: { maxDepth: number; root: Uint8Array } | undefined
+): boolean {
+  const compression = asset.compression;
+
+  if (!proof || !tree || !compression?.tree || compression.leaf_id === undefined || !asset.creators) {
+    return false;
+  }
+
+  if (proof.tree_id !== compression.tree || proof.proof.length !== tree.maxDepth) {
+    return false;
+  }
+
+  // The asset ID must be the one Bubblegum derives for this tree and leaf
+  if (getAssetId(compression.tree, compression.leaf_id) !== asset.id) {
+    return false;
+  }
+
+  const dataHash = computeDataHash(asset, collectionAddress);
+  if (!dataHash) {
+    return false;
+  }
+
+  const leaf = computeLeafHash({
+    assetId: asset.id,
+    owner,
+    delegate: asset.ownership.delegate || owner,
+    nonce: compression.leaf_id,
+    dataHash,
+    creatorHash: computeCreatorHash(asset.creators),
+  });
+
+  const root = computeMerkleRoot(leaf, proof.proof.map(toBytes), compression.leaf_id);
+  return bytesEqual(root, tree.root);
+}
+
+async function verifyBatch(
+  assets: DasAsset[],
+  owner: string,
+  collectionAddress: string,
+  verified: Set<string>
+): Promise<DasAsset[]> {
+  const proofBatches = await mapWithConcurrency(chunk(assets, PROOF_BATCH_SIZE), PROOF_BATCH_CONCURRENCY, batch =>
+    withRetry(() => getAssetProofs(batch.map(asset => asset.id)), { label: "getAssetProofBatch" })
+  );
+  const proofs: Record<string, DasAssetProof> = Object.assign({}, ...proofBatches);
+
+  const treeAddresses = Array.from(
+    new Set(assets.map(asset => asset.compression?.tree).filter((tree): tree is string => Boolean(tree)))
+  );
+  const treeAccounts = (
+    await mapWithConcurrency(chunk(treeAddresses, PROOF_BATCH_SIZE), PROOF_BATCH_CONCURRENCY, batch =>
+      withRetry(
+        () => withRpcConnection("getMultipleAccountsInfo (Merkle trees)", connection =>
+          connection.getMultipleAccountsInfo(batch.map(address => new PublicKey(address)))
+        ),
+        { label: "getMultipleAccountsInfo (Merkle trees)" }
+      )
+    )
+  ).flat();
+
+  const trees = new Map<string, { maxDepth: number; root: Uint8Array }>();
+  treeAddresses.forEach((address, index) => {
+    const account = treeAccounts[index];
+    if (!account || !ACCOUNT_COMPRESSION_PROGRAM_IDS.includes(account.owner.toBase58())) {
+      console.warn(`⚠️ ${address} is not a compression tree account`);
+      return;
+    }
+    try {
+      trees.set(address, decodeMerkleTreeRoot(account.data));
+    } catch (error) {
+      console.warn(`⚠️ Could not read Merkle tree ${address}:`, error instanceof Error ? error.message : error);
+    }
+  });
+
+  const failed: DasAsset[] = [];
+  for (const asset of assets) {
+    const tree = asset.compression?.tree ? trees.get(asset.compression.tree) : undefined;
+    if (verifyCompressedAssetProof(asset, owner, collectionAddress, proofs[asset.id], tree)) {
+      verified.add(asset.id);
+    } else {
+      failed.push(asset);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Returns the IDs of the compressed assets that provably belong to `owner`
+ * and to the verified collection `collectionAddress` under the current
+ * on-chain tree roots
+ */
+export async function verifyCompressedAssets(
+  assets: DasAsset[],
+  owner: string,
+  collectionAddress: string
+): Promise<Set<string>> {
+  const verified = new Set<string>();
+
+  let pending = assets;
+  for (let attempt = 1; attempt <= VERIFY_ATTEMPTS && pending.length > 0; attempt++) {
+    pending = await verifyBatch(pending, owner, collectionAddress, verified);
+  }
+
+  for (const asset of pending) {
+    console.log(`❌ Compressed NFT ${asset.id} failed Merkle proof verification`);
+  }
+
+  return verified;
+}
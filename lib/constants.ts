@@ -11,11 +11,18 @@ export const MAX_NFTS_DISPLAY = 100;
 // Solana Token Program ID
 export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
 
+// Solana Token-2022 (Token Extensions) Program ID
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+
 // API endpoints
 export const API_ENDPOINTS = {
   NONCE: "/api/nonce",
   VERIFY_SOLANA: "/api/verify-solana",
   LINK_EVM: "/api/link-evm",
+  NFT_STATUS: "/api/nft-status",
+  UNLINK: "/api/unlink",
+  COLLECTIONS: "/api/collections",
+  CAMPAIGN: "/api/campaign",
 } as const;
 
 // External links
@@ -0,0 +1,220 @@
+import { ProviderRequestError } from "@/lib/errors";
+import { isRequestErrorCode, isRequestErrorStatus, withSolanaProvider } from "@/lib/solanaProvider";
+
+/**
+ * Minimal client for the Digital Asset Standard (DAS) JSON-RPC API (Helius)
+ *
+ * Requests go through the DAS providers of lib/solanaProvider: set
+ * HELIUS_DAS_URL to point at a different DAS endpoint (e.g. a local mock
+ * server serving recorded fixture pages); otherwise the Helius mainnet
+ * endpoint is used with HELIUS_API_KEY.
+ */
+
+// DAS caps page size at 1000
+export const DAS_PAGE_LIMIT = 1000;
+
+// Safety net against endpoints that never return a short page (50k assets)
+const MAX_PAGES = 50;
+
+export interface DasGrouping {
+  group_key: string;
+  group_value: string;
+  /** Only reported with showUnverifiedCollections - a missing flag counts as unverified */
+  verified?: boolean;
+}
+
+export interface DasAsset {
+  id: string;
+  interface: string;
+  burnt?: boolean;
+  content?: {
+    json_uri?: string;
+    metadata?: {
+      name?: string;
+      symbol?: string;
+      token_standard?: string;
+    };
+    links?: {
+      image?: string;
+    };
+  };
+  grouping?: DasGrouping[];
+  creators?: {
+    address: string;
+    share: number;
+    verified: boolean;
+  }[];
+  royalty?: {
+    basis_points: number;
+    primary_sale_happened: boolean;
+  };
+  supply?: {
+    edition_nonce: number | null;
+  } | null;
+  mutable?: boolean;
+  ownership: {
+    owner: string;
+    delegate?: string | null;
+    frozen?: boolean;
+  };
+  token_info?: {
+    token_program?: string;
+  };
+  compression?: {
+    compressed: boolean;
+    tree?: string;
+    leaf_id?: number;
+    data_hash?: string;
+    creator_hash?: string;
+    asset_hash?: string;
+  };
+}
+
+/** Merkle proof for a compressed asset (all values base58) */
+export interface DasAssetProof {
+  root: string;
+  proof: string[];
+  node_index: number;
+  leaf: string;
+  tree_id: string;
+}
+
+interface DasPage {
+  total: number;
+  limit: number;
+  page: number;
+  items: DasAsset[];
+}
+
+/**
+ * Sends a single DAS JSON-RPC request to the healthiest DAS provider
+ * @throws ProviderRequestError if the provider rejects the request (HTTP 4xx, JSON-RPC request error)
+ * @throws Error on other HTTP or JSON-RPC errors
+ * @throws ProviderUnavailableError if no DAS provider is configured or available
+ */
+export async function dasRequest<T>(method: string, params: Record<string, unknown>): Promise<T> {
+  return withSolanaProvider("das", `DAS ${method}`, provider => postDasRequest<T>(provider.url, method, params));
+}
+
+async function postDasRequest<T>(url: string, method: string, params: Record<string, unknown>): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: method,
+      method,
+      params,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ DAS ${method} error: ${response.status} ${response.statusText}`);
+    console.error(`❌ Error details: ${errorText}`);
+    const message = `DAS ${method} error: ${response.status} ${response.statusText}`;
+    throw isRequestErrorStatus(response.status) ? new ProviderRequestError(message) : new Error(message);
+  }
+
+  const body = await response.json();
+
+  if (body.error) {
+    const message = `DAS ${method} error: ${body.error.message ?? JSON.stringify(body.error)}`;
+    throw isRequestErrorCode(body.error.code)
+      ? new ProviderRequestError(message, body.error.code)
+      : new Error(message);
+  }
+
+  return body.result as T;
+}
+
+/**
+ * Iterates every page of a paginated DAS method and returns all items
+ * @throws Error if the result doesn't fit in MAX_PAGES (rather than silently truncating)
+ */
+async function fetchAllPages(method: string, params: Record<string, unknown>): Promise<DasAsset[]> {
+  const assets: DasAsset[] = [];
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const result = await dasRequest<DasPage>(method, { ...params, page, limit: DAS_PAGE_LIMIT });
+    assets.push(...result.items);
+
+    console.log(`📄 DAS ${method} page ${page}: ${result.items.length} assets`);
+
+    if (result.items.length < DAS_PAGE_LIMIT) {
+      return assets;
+    }
+  }
+
+  throw new Error(`DAS ${method} returned more than ${MAX_PAGES} pages`);
+}
+
+/**
+ * Assets held by a wallet that belong to a collection (server-side grouping filter)
+ */
+export async function searchAssetsByCollection(
+  ownerAddress: string,
+  collectionAddress: string
+): Promise<DasAsset[]> {
+  return fetchAllPages("searchAssets", {
+    ownerAddress,
+    grouping: ["collection", collectionAddress],
+    burnt: false,
+    // Makes the indexer report grouping.verified, which groupAssetsByCollection requires
+    options: { showUnverifiedCollections: true },
+  });
+}
+
+/**
+ * Assets by ID (getAssetBatch, at most 1000 IDs per call).
+ * IDs the indexer doesn't know are missing from the result.
+ */
+export async function getAssetsById(assetIds: string[]): Promise<DasAsset[]> {
+  if (assetIds.length === 0) {
+    return [];
+  }
+
+  const result = await dasRequest<(DasAsset | null)[]>("getAssetBatch", {
+    ids: assetIds,
+    options: { showUnverifiedCollections: true },
+  });
+  return (result ?? []).filter((asset): asset is DasAsset => asset !== null);
+}
+
+/**
+ * Merkle proofs for compressed assets, keyed by asset ID.
+ * Assets the indexer has no proof for are missing from the result.
+ */
+export async function getAssetProofs(assetIds: string[]): Promise<Record<string, DasAssetProof>> {
+  if (assetIds.length === 0) {
+    return {};
+  }
+
+  const result = await dasRequest<Record<string, DasAssetProof | null>>("getAssetProofBatch", { ids: assetIds });
+
+  return Object.fromEntries(
+    Object.entries(result ?? {}).filter((entry): entry is [string, DasAssetProof] => entry[1] !== null)
+  );
+}
+
+/**
+ * Groups assets by their verified collection address.
+ * Assets without a verified collection are grouped under null.
+ */
+export function groupAssetsByCollection(assets: DasAsset[]): Map<string | null, DasAsset[]> {
+  const groups = new Map<string | null, DasAsset[]>();
+
+  for (const asset of assets) {
+    const collection = asset.grouping?.find(
+      group => group.group_key === "collection" && group.verified === true
+    );
+    const key = collection?.group_value ?? null;
+    const group = groups.get(key) ?? [];
+    group.push(asset);
+    groups.set(key, group);
+  }
+
+  return groups;
+}
@@ -1,3 +1,5 @@
+import type { CampaignStatus } from "@/lib/campaign";
+
 /**
  * Custom error classes for better error handling
  */
@@ -23,6 +25,37 @@ export class NonceError extends Error {
   }
 }
 
+export class SignInMessageError extends Error {
+  constructor(message = "Invalid sign-in message") {
+    super(message);
+    this.name = "SignInMessageError";
+  }
+}
+
+export class SessionTokenError extends Error {
+  constructor(message = "Invalid or expired verification token") {
+    super(message);
+    this.name = "SessionTokenError";
+  }
+}
+
+export class AdminAuthError extends Error {
+  constructor(message = "Admin authentication required") {
+    super(message);
+    this.name = "AdminAuthError";
+  }
+}
+
+export class AdminForbiddenError extends Error {
+  readonly requiredRole: string;
+
+  constructor(requiredRole: string, message = `Requires the ${requiredRole} role`) {
+    super(message);
+    this.name = "AdminForbiddenError";
+    this.requiredRole = requiredRole;
+  }
+}
+
 export class NFTVerificationError extends Error {
   constructor(message = "NFT verification failed") {
     super(message);
@@ -30,10 +63,78 @@ export class NFTVerificationError extends Error {
   }
 }
 
+export class MetadataDecodeError extends Error {
+  constructor(message = "Invalid token metadata account") {
+    super(message);
+    this.name = "MetadataDecodeError";
+  }
+}
+
+export class ManifestError extends Error {
+  constructor(message = "Invalid collection manifest") {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+export class UnknownMintError extends Error {
+  readonly mints: string[];
+
+  constructor(mints: string[], message = `NFT(s) not in the collection manifest: ${mints.join(", ")}`) {
+    super(message);
+    this.name = "UnknownMintError";
+    this.mints = mints;
+  }
+}
+
+export class CampaignClosedError extends Error {
+  readonly campaign: CampaignStatus;
+
+  constructor(campaign: CampaignStatus, message = "Campaign closed") {
+    super(message);
+    this.name = "CampaignClosedError";
+    this.campaign = campaign;
+  }
+}
+
+export class ProviderUnavailableError extends Error {
+  constructor(message = "No Solana provider available") {
+    super(message);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+export class InvalidAddressError extends Error {
+  readonly address: string;
+
+  constructor(address: string, message = `Invalid Solana address: ${address}`) {
+    super(message);
+    this.name = "InvalidAddressError";
+    this.address = address;
+  }
+}
+
+/**
+ * The provider answered, but rejected the request itself (JSON-RPC error,
+ * HTTP 4xx) - the caller's fault, so it doesn't count against the provider
+ */
+export class ProviderRequestError extends Error {
+  readonly code: number | null;
+
+  constructor(message = "Solana provider rejected the request", code: number | null = null) {
+    super(message);
+    this.name = "ProviderRequestError";
+    this.code = code;
+  }
+}
+
 export class NoNFTsFoundError extends Error {
-  constructor(message = "No Wassieverse NFTs found in wallet") {
+  readonly collectionName: string;
+
+  constructor(collectionName: string, message = `No ${collectionName} NFTs found in wallet`) {
     super(message);
     this.name = "NoNFTsFoundError";
+    this.collectionName = collectionName;
   }
 }
 
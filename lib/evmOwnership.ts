@@ -0,0 +1,95 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NonceError, SignatureVerificationError } from "@/lib/errors";
+import { getSignInConfig } from "@/lib/signatures/signIn";
+import { verifySiweMessage } from "@/lib/signatures/siwe";
+import { verifyEvmSignature, type EvmSignatureMethod } from "@/lib/signatures/evm";
+
+export interface EvmOwnershipProof {
+  /** SIWE nonce to consume when the change is written */
+  nonce: string;
+  /** How the signature was verified */
+  method: EvmSignatureMethod;
+}
+
+/**
+ * Verifies that the caller controls an EVM address: the signed text must be a
+ * SIWE message issued by /api/nonce for that address, and the signature must
+ * verify (EOA, EIP-1271 or ERC-6492).
+ *
+ * The nonce is NOT consumed here - call consumeEvmNonce inside the
+ * transaction that writes the change so a signature can only be used once.
+ *
+ * @throws SignInMessageError, NonceError or SignatureVerificationError
+ */
+export async function verifyEvmOwnership({
+  evmAddress,
+  message,
+  signature,
+  requestUrl,
+}: {
+  evmAddress: string;
+  message: string;
+  signature: string;
+  requestUrl: string;
+}): Promise<EvmOwnershipProof> {
+  const siweMessage = verifySiweMessage(message, {
+    address: evmAddress,
+    config: getSignInConfig(requestUrl),
+  });
+
+  const nonceRecord = await prisma.nonce.findUnique({
+    where: { nonce: siweMessage.nonce },
+  });
+
+  if (!nonceRecord || nonceRecord.address !== evmAddress.toLowerCase()) {
+    throw new NonceError("EVM nonce was not issued for this address");
+  }
+
+  if (nonceRecord.used) {
+    throw new NonceError("EVM nonce already used");
+  }
+
+  if (
+    new Date() > nonceRecord.expiresAt ||
+    siweMessage.expirationTime !== nonceRecord.expiresAt.toISOString() ||
+    siweMessage.requestId !== nonceRecord.requestId
+  ) {
+    throw new NonceError("EVM nonce expired or does not match the issued message");
+  }
+
+  let result;
+  try {
+    // Falls back to EIP-1271 / ERC-6492 for smart-contract wallets (Safe, smart accounts)
+    result = await verifyEvmSignature({ address: evmAddress, message, signature });
+  } catch (error) {
+    console.error("EVM signature verification error:", error);
+    throw new SignatureVerificationError("EVM signature verification failed");
+  }
+
+  if (!result.valid) {
+    throw new SignatureVerificationError("Invalid EVM signature");
+  }
+
+  console.log(`✅ EVM signature verified using method: ${result.method}`);
+  return { nonce: siweMessage.nonce, method: result.method };
+}
+
+/**
+ * Marks a SIWE nonce as used inside the caller's transaction
+ * @throws NonceError if it was already consumed by a concurrent request
+ */
+export async function consumeEvmNonce(
+  tx: Prisma.TransactionClient,
+  nonce: string,
+  evmAddress: string
+): Promise<void> {
+  const { count } = await tx.nonce.updateMany({
+    where: { nonce, address: evmAddress.toLowerCase(), used: false },
+    data: { used: true },
+  });
+
+  if (count === 0) {
+    throw new NonceError("EVM nonce already used");
+  }
+}
@@ -0,0 +1,206 @@
+import { PublicKey } from "@solana/web3.js";
+import { ManifestError } from "@/lib/errors";
+
+/**
+ * Parser for collection hashlists (the mint list scripts/import-hashlist.ts
+ * loads into the CollectionMint table).
+ *
+ * Supported formats:
+ * - JSON array of mint addresses: ["<mint>", ...] (token IDs resolved by the importer)
+ * - JSON array of objects: [{ "mint": "<mint>", "tokenId": "564", "name": "...", "image": "..." }, ...]
+ *   ("mintAddress" and "imageUri" also accepted)
+ * - JSON object: { "<mint>": "564", ... }
+ * - CSV with a header containing mint and optionally tokenId, name and image columns
+ *   (RFC 4180 quoting: "Wassie, the Great #12" and "" inside quotes are fine)
+ */
+
+export interface HashlistEntry {
+  mint: string;
+  tokenId?: string;
+  name?: string;
+  imageUri?: string;
+}
+
+export interface CollectionMintEntry {
+  mint: string;
+  tokenId: string;
+  name?: string;
+  imageUri?: string;
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    return value.trim();
+  }
+  return undefined;
+}
+
+function normalizeEntry(record: Record<string, unknown>, line: string): HashlistEntry {
+  const mint = optionalString(record.mint ?? record.mintAddress);
+  if (!mint) {
+    throw new ManifestError(`Hashlist entry ${line} is missing a mint`);
+  }
+
+  try {
+    new PublicKey(mint);
+  } catch {
+    throw new ManifestError(`Hashlist entry ${line} has an invalid mint address: ${mint}`);
+  }
+
+  return {
+    mint,
+    tokenId: optionalString(record.tokenId),
+    name: optionalString(record.name),
+    imageUri: optionalString(record.image ?? record.imageUri),
+  };
+}
+
+function parseJson(content: string): HashlistEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ManifestError("Hashlist is not valid JSON");
+  }
+
+  if (Array.isArray(data)) {
+    return data.map((item, index) =>
+      normalizeEntry(typeof item === "string" ? { mint: item } : (item ?? {}) as Record<string, unknown>, `#${index + 1}`)
+    );
+  }
+
+  if (data && typeof data === "object") {
+    return Object.entries(data).map(([mint, tokenId]) => normalizeEntry({ mint, tokenId }, mint));
+  }
+
+  throw new ManifestError("Hashlist JSON must be an array or an object");
+}
+
+interface CsvRow {
+  /** 1-based line the row starts on */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Splits CSV content into rows of fields. Quoted fields may contain commas,
+ * line breaks and doubled quotes. Blank lines are skipped.
+ * @throws ManifestError on a quote that is never closed or stray text after one
+ */
+function parseCsvRows(content: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let line = 1;
+  let rowLine = 1;
+  let quoted = false;
+  let afterQuote = false;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== "") {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = "";
+    afterQuote = false;
+    rowLine = line;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        afterQuote = true;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === ",") {
+      fields.push(field);
+      field = "";
+      afterQuote = false;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      line++;
+      endRow();
+    } else if (char === '"' && field.trim() === "" && !afterQuote) {
+      quoted = true;
+      field = "";
+    } else if (afterQuote && char.trim() !== "") {
+      throw new ManifestError(`Hashlist CSV line ${line} has text after a closing quote`);
+    } else if (!afterQuote) {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ManifestError(`Hashlist CSV line ${rowLine} has an unterminated quote`);
+  }
+  endRow();
+
+  return rows;
+}
+
+function parseCsv(content: string): HashlistEntry[] {
+  const [headerRow, ...rows] = parseCsvRows(content);
+  const header = (headerRow?.fields ?? []).map(column => column.trim());
+
+  if (!header.includes("mint") && !header.includes("mintAddress")) {
+    throw new ManifestError("Hashlist CSV needs a header with a mint column");
+  }
+
+  return rows.map(({ line, fields }) => {
+    // A shifted column would silently import the wrong token ID or image
+    if (fields.length !== header.length) {
+      throw new ManifestError(
+        `Hashlist CSV line ${line} has ${fields.length} columns, the header has ${header.length} - quote values that contain commas`
+      );
+    }
+    const record = Object.fromEntries(header.map((column, i) => [column, fields[i]]));
+    return normalizeEntry(record, `line ${line}`);
+  });
+}
+
+/**
+ * Parses a hashlist file's content
+ * @throws ManifestError on malformed content or invalid mint addresses
+ */
+export function parseHashlist(content: string, format: "json" | "csv"): HashlistEntry[] {
+  return format === "csv" ? parseCsv(content) : parseJson(content);
+}
+
+/**
+ * Checks that every entry has a token ID and that mints and token IDs are unique
+ * @throws ManifestError naming the first offending entry
+ */
+export function validateHashlist(entries: HashlistEntry[]): CollectionMintEntry[] {
+  const mints = new Set<string>();
+  const tokenIds = new Set<string>();
+
+  return entries.map(entry => {
+    if (!entry.tokenId) {
+      throw new ManifestError(`No token ID for mint ${entry.mint}`);
+    }
+    if (mints.has(entry.mint)) {
+      throw new ManifestError(`Hashlist lists mint ${entry.mint} more than once`);
+    }
+    if (tokenIds.has(entry.tokenId)) {
+      throw new ManifestError(`Hashlist assigns token ID ${entry.tokenId} to more than one mint`);
+    }
+    mints.add(entry.mint);
+    tokenIds.add(entry.tokenId);
+    return { ...entry, tokenId: entry.tokenId };
+  });
+}
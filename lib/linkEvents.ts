@@ -0,0 +1,118 @@
+import { createHmac, randomBytes } from "crypto";
+import type { NextRequest } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { getClientIp, getRequestId } from "@/lib/requestContext";
+
+/**
+ * Append-only link history
+ *
+ * Every change to a LinkedNFT row is recorded as a LinkEvent in the same
+ * transaction as the change itself. Events are never updated or deleted, so
+ * the table is the timeline support uses to answer "how did this link happen?".
+ */
+
+export const LinkEventType = {
+  /** First link between a Solana and an EVM wallet */
+  CREATED: "created",
+  /** NFTs added to an existing wallet link */
+  NFTS_ADDED: "nfts_added",
+  /** Current holder pointed the NFT at a different EVM address */
+  RELINKED: "relinked",
+  /** Current holder released the NFT */
+  UNLINKED: "unlinked",
+  /** Manual change made by an administrator */
+  ADMIN_OVERRIDE: "admin_override",
+} as const;
+
+export type LinkEventType = (typeof LinkEventType)[keyof typeof LinkEventType];
+
+export interface RequestContext {
+  /** Correlates the event with server logs and support tickets */
+  requestId: string;
+  /** Keyed hash of the client IP - never store the raw address */
+  ipHash: string | null;
+}
+
+export interface LinkEventInput {
+  type: LinkEventType;
+  collectionId: string;
+  tokenId: string;
+  mintAddress: string;
+  /** Who made the change (Solana address, or admin identity for overrides) */
+  actor: string;
+  /** Link after the change (null when unlinked) */
+  solanaAddress: string | null;
+  evmAddress: string | null;
+  /** Link before the change (null when the token was not linked) */
+  previousSolanaAddress?: string | null;
+  previousEvmAddress?: string | null;
+  /** How the actor proved Solana ownership (signature encoder or "memo-transaction") */
+  signatureMethod?: string | null;
+  /** How the EVM signature was verified ("eoa", "eip1271" or "erc6492") */
+  evmSignatureMethod?: string | null;
+}
+
+// Development-only fallback so local setups work without extra config
+let developmentSecret: Buffer | null = null;
+
+function getIpHashSecret(): Buffer {
+  const secret = process.env.IP_HASH_SECRET;
+
+  if (secret) {
+    return Buffer.from(secret, "utf8");
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("IP_HASH_SECRET not configured");
+  }
+
+  if (!developmentSecret) {
+    console.warn("⚠️  No IP_HASH_SECRET configured, using a random per-process secret");
+    developmentSecret = randomBytes(32);
+  }
+  return developmentSecret;
+}
+
+/**
+ * Request ID and hashed client IP (both resolved by middleware.ts) to attach
+ * to the events written by a request
+ */
+export function getRequestContext(req: NextRequest): RequestContext {
+  const requestId = getRequestId(req);
+
+  const ip = getClientIp(req);
+  const ipHash = ip ? createHmac("sha256", getIpHashSecret()).update(ip).digest("hex") : null;
+
+  return { requestId, ipHash };
+}
+
+/**
+ * Appends events inside the caller's transaction so history and state can't diverge
+ */
+export async function recordLinkEvents(
+  tx: Prisma.TransactionClient,
+  context: RequestContext,
+  events: LinkEventInput[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await tx.linkEvent.createMany({
+    data: events.map(event => ({
+      type: event.type,
+      collectionId: event.collectionId,
+      tokenId: event.tokenId,
+      mintAddress: event.mintAddress,
+      actor: event.actor,
+      solanaAddress: event.solanaAddress,
+      evmAddress: event.evmAddress,
+      previousSolanaAddress: event.previousSolanaAddress ?? null,
+      previousEvmAddress: event.previousEvmAddress ?? null,
+      signatureMethod: event.signatureMethod ?? null,
+      evmSignatureMethod: event.evmSignatureMethod ?? null,
+      requestId: context.requestId,
+      ipHash: context.ipHash,
+    })),
+  });
+}
@@ -0,0 +1,77 @@
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { MetadataDecodeError } from "@/lib/errors";
+import { BorshReader } from "@/lib/borsh";
+
+/**
+ * Decoder for Metaplex Core assets (single-account NFTs, no mint / token account)
+ *
+ * Only the base AssetV1 fields are decoded; plugins appended after them are ignored.
+ * An asset belongs to a collection when its update authority is
+ * Collection(collectionAddress) - only the collection authority can set that,
+ * so it plays the role of Token Metadata's verified flag.
+ */
+
+export const MPL_CORE_PROGRAM_ID = new PublicKey("CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7");
+
+// Key discriminator of an asset account (Key::AssetV1)
+const ASSET_V1_KEY = 1;
+
+// BaseUpdateAuthority variants
+const UPDATE_AUTHORITY_NONE = 0;
+const UPDATE_AUTHORITY_ADDRESS = 1;
+const UPDATE_AUTHORITY_COLLECTION = 2;
+
+// Byte offsets of the fixed-position fields, used for getProgramAccounts filters
+const OWNER_OFFSET = 1;
+const UPDATE_AUTHORITY_OFFSET = 33;
+
+export interface CoreAsset {
+  owner: string;
+  /** Collection the asset belongs to, or null if it isn't in one */
+  collection: string | null;
+  name: string;
+  uri: string;
+}
+
+/**
+ * Decodes a Core AssetV1 account
+ * @throws MetadataDecodeError if the data is not a Core asset
+ */
+export function decodeCoreAsset(data: Uint8Array): CoreAsset {
+  const reader = new BorshReader(data);
+
+  const key = reader.u8();
+  if (key !== ASSET_V1_KEY) {
+    throw new MetadataDecodeError(`Not a Core asset account (key ${key})`);
+  }
+
+  const owner = reader.pubkey();
+
+  let collection: string | null = null;
+  const updateAuthority = reader.u8();
+  if (updateAuthority === UPDATE_AUTHORITY_COLLECTION) {
+    collection = reader.pubkey();
+  } else if (updateAuthority === UPDATE_AUTHORITY_ADDRESS) {
+    reader.pubkey();
+  } else if (updateAuthority !== UPDATE_AUTHORITY_NONE) {
+    throw new MetadataDecodeError(`Unknown update authority variant ${updateAuthority}`);
+  }
+
+  const name = reader.string();
+  const uri = reader.string();
+
+  return { owner, collection, name: name.trim(), uri: uri.trim() };
+}
+
+/**
+ * getProgramAccounts filters matching Core assets held by `owner` in `collection`
+ */
+export function coreAssetFilters(owner: string, collection: string) {
+  return [
+    { memcmp: { offset: 0, bytes: bs58.encode([ASSET_V1_KEY]) } },
+    { memcmp: { offset: OWNER_OFFSET, bytes: owner } },
+    { memcmp: { offset: UPDATE_AUTHORITY_OFFSET, bytes: bs58.encode([UPDATE_AUTHORITY_COLLECTION]) } },
+    { memcmp: { offset: UPDATE_AUTHORITY_OFFSET + 1, bytes: collection } },
+  ];
+}
@@ -0,0 +1,156 @@
+import type { Collection } from "@prisma/client";
+import { deleteCache, getCache, setCache } from "@/lib/cache";
+import { getCollectionNFTs, type CollectionNFT } from "@/lib/solana";
+
+/**
+ * Cached view of which collection NFTs a wallet holds
+ *
+ * - Wallets holding NFTs are cached for OWNED_FRESH_SECONDS; for
+ *   OWNED_STALE_SECONDS after that the stale entry is still served while a
+ *   background lookup refreshes it (stale-while-revalidate).
+ * - Wallets without NFTs are cached for EMPTY_FRESH_SECONDS only, so a wallet
+ *   that just received an NFT isn't turned away for long.
+ * - Concurrent lookups of the same wallet share one chain query.
+ *
+ * Errors (including UnknownMintError) are never cached. Callers that act on
+ * ownership (link-evm, unlink) pass fresh: true to skip cached data.
+ */
+
+const OWNED_FRESH_SECONDS = 5 * 60;
+const OWNED_STALE_SECONDS = 10 * 60;
+const EMPTY_FRESH_SECONDS = 30;
+
+// Bump when OwnershipCacheEntry changes so old entries are ignored
+const CACHE_VERSION = 1;
+
+interface OwnershipCacheEntry {
+  version: typeof CACHE_VERSION;
+  nfts: CollectionNFT[];
+  /** Epoch milliseconds of the chain lookup */
+  fetchedAt: number;
+}
+
+type OwnershipCollection = Pick<Collection, "id" | "slug" | "address">;
+
+interface InFlightLookup {
+  promise: Promise<CollectionNFT[]>;
+  /** Set on invalidation so a lookup that started before it can't write its result back */
+  invalidated: boolean;
+}
+
+// Lookups in flight per cache key (request coalescing). Entries only live as
+// long as their lookup, so the map never outgrows the concurrent requests.
+const inFlight = new Map<string, InFlightLookup>();
+
+function getCacheKey(collection: OwnershipCollection, walletAddress: string): string {
+  return `nft-ownership:${collection.slug}:${walletAddress}`;
+}
+
+function getFreshSeconds(entry: OwnershipCacheEntry): number {
+  return entry.nfts.length > 0 ? OWNED_FRESH_SECONDS : EMPTY_FRESH_SECONDS;
+}
+
+function parseEntry(value: string): OwnershipCacheEntry | null {
+  try {
+    const entry = JSON.parse(value) as Partial<OwnershipCacheEntry>;
+    if (entry.version !== CACHE_VERSION || !Array.isArray(entry.nfts) || typeof entry.fetchedAt !== "number") {
+      return null;
+    }
+    return entry as OwnershipCacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+async function readEntry(key: string): Promise<OwnershipCacheEntry | null> {
+  const value = await getCache(key);
+  return value ? parseEntry(value) : null;
+}
+
+async function writeEntry(key: string, nfts: CollectionNFT[]): Promise<void> {
+  const entry: OwnershipCacheEntry = { version: CACHE_VERSION, nfts, fetchedAt: Date.now() };
+  // Empty results expire as soon as they are no longer fresh - no stale window
+  const ttlSeconds = nfts.length > 0 ? OWNED_FRESH_SECONDS + OWNED_STALE_SECONDS : EMPTY_FRESH_SECONDS;
+  await setCache(key, JSON.stringify(entry), ttlSeconds);
+}
+
+/**
+ * Queries the chain once per key at a time and caches the result
+ */
+function lookup(key: string, walletAddress: string, collection: OwnershipCollection): Promise<CollectionNFT[]> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    console.log(`⏳ Joining in-flight NFT lookup for ${walletAddress}`);
+    return pending.promise;
+  }
+
+  const current: InFlightLookup = { promise: Promise.resolve([]), invalidated: false };
+  current.promise = (async () => {
+    console.log(`🔍 Fetching NFTs from blockchain for ${walletAddress}`);
+    const nfts = await getCollectionNFTs(walletAddress, collection);
+
+    if (!current.invalidated) {
+      await writeEntry(key, nfts);
+    }
+    return nfts;
+  })().finally(() => {
+    if (inFlight.get(key) === current) {
+      inFlight.delete(key);
+    }
+  });
+
+  inFlight.set(key, current);
+  return current.promise;
+}
+
+/**
+ * NFTs of `collection` held by `walletAddress`, from the cache when possible
+ * @param options.fresh - ignore cached data and query the chain (still shares an in-flight lookup)
+ * @throws UnknownMintError / ManifestError from getCollectionNFTs
+ */
+export async function getOwnedNFTs(
+  walletAddress: string,
+  collection: OwnershipCollection,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<CollectionNFT[]> {
+  const key = getCacheKey(collection, walletAddress);
+
+  if (!fresh) {
+    const entry = await readEntry(key);
+    if (entry) {
+      const ageSeconds = (Date.now() - entry.fetchedAt) / 1000;
+
+      if (ageSeconds < getFreshSeconds(entry)) {
+        console.log(`✅ Using cached NFTs for ${walletAddress}`);
+        return entry.nfts;
+      }
+
+      if (entry.nfts.length > 0 && ageSeconds < OWNED_FRESH_SECONDS + OWNED_STALE_SECONDS) {
+        console.log(`♻️ Using stale cached NFTs for ${walletAddress}, refreshing in the background`);
+        lookup(key, walletAddress, collection).catch(error => {
+          console.error(`Background NFT refresh failed for ${walletAddress}:`, error);
+        });
+        return entry.nfts;
+      }
+    }
+  }
+
+  return lookup(key, walletAddress, collection);
+}
+
+/**
+ * Drops the cached holdings of the given wallets, e.g. after their NFTs were linked
+ */
+export async function invalidateOwnedNFTs(collection: OwnershipCollection, walletAddresses: string[]): Promise<void> {
+  await Promise.all(
+    Array.from(new Set(walletAddresses)).map(async walletAddress => {
+      const key = getCacheKey(collection, walletAddress);
+      const pending = inFlight.get(key);
+      if (pending) {
+        pending.invalidated = true;
+        inFlight.delete(key);
+      }
+      await deleteCache(key);
+    })
+  );
+}
@@ -1,9 +1,19 @@
-type RateLimitEntry = {
-  count: number;
-  expiresAt: number;
-};
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { evalRedisScript, isRedisAvailable } from "@/lib/redis";
+import { getClientIp } from "@/lib/requestContext";
 
-const memoryStore = new Map<string, RateLimitEntry>();
+/**
+ * Sliding-window rate limiting for the public API routes, per client IP
+ *
+ * Each request is logged with its timestamp; a client may make `limit`
+ * requests in any `windowSeconds` span. Rejected requests aren't logged, so a
+ * client that backs off recovers as its oldest requests age out.
+ *
+ * The log lives in Redis (a sorted set per client and route, updated by one
+ * Lua script so instances can't race) and falls back to process memory
+ * without Redis - per instance, but better than no limit.
+ */
 
 export interface RateLimitConfig {
   /** Maximum number of requests allowed within the window */
@@ -14,46 +24,206 @@ export interface RateLimitConfig {
 
 export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
+  /** Epoch milliseconds when the next request slot frees up */
   reset: number;
 }
 
+function getPolicy(name: string, fallback: RateLimitConfig): RateLimitConfig {
+  // Override as RATE_LIMIT_<ROUTE>="<limit>/<window seconds>", e.g. RATE_LIMIT_VERIFY_SOLANA="10/60"
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase().replace(/-/g, "_")}`];
+  const match = override?.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    return fallback;
+  }
+  return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+export const RATE_LIMIT_POLICIES = {
+  nonce: getPolicy("nonce", { limit: 30, windowSeconds: 60 }),
+  "verify-solana": getPolicy("verify-solana", { limit: 10, windowSeconds: 60 }),
+  "check-nfts": getPolicy("check-nfts", { limit: 20, windowSeconds: 60 }),
+  "link-evm": getPolicy("link-evm", { limit: 10, windowSeconds: 60 }),
+  "nft-status": getPolicy("nft-status", { limit: 60, windowSeconds: 60 }),
+  unlink: getPolicy("unlink", { limit: 10, windowSeconds: 60 }),
+  "evm-profile": getPolicy("evm-profile", { limit: 60, windowSeconds: 60 }),
+  "wallet-info": getPolicy("wallet-info", { limit: 60, windowSeconds: 60 }),
+  campaign: getPolicy("campaign", { limit: 60, windowSeconds: 60 }),
+  collections: getPolicy("collections", { limit: 60, windowSeconds: 60 }),
+  "admin-session": getPolicy("admin-session", { limit: 10, windowSeconds: 60 }),
+  "nft-linkstatus": getPolicy("nft-linkstatus", {
+    limit: Number(process.env.NFT_LINKSTATUS_RATE_LIMIT ?? 20),
+    windowSeconds: Number(process.env.NFT_LINKSTATUS_RATE_WINDOW ?? 60),
+  }),
+} satisfies Record<string, RateLimitConfig>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+// KEYS[1] = log key; ARGV = now (ms), window (ms), limit, unique member
+// Returns { allowed (0/1), requests in the window, reset (ms) }
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local reset = now + window
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window
+end
+return { allowed, count, reset }
+`;
+
+// Memory fallback: request timestamps per key, oldest first
+const memoryStore = new Map<string, number[]>();
+
+// Every MEMORY_SWEEP_INTERVAL checks, drop keys with no request inside the longest window
+const MEMORY_SWEEP_INTERVAL = 1000;
+const MAX_WINDOW_MS = Math.max(...Object.values(RATE_LIMIT_POLICIES).map(policy => policy.windowSeconds)) * 1000;
+let checksSinceSweep = 0;
+
+function sweepMemoryStore(now: number) {
+  for (const [key, timestamps] of Array.from(memoryStore.entries())) {
+    const newest = timestamps[timestamps.length - 1];
+    if (newest === undefined || newest <= now - MAX_WINDOW_MS) {
+      memoryStore.delete(key);
+    }
+  }
+}
+
+function checkMemoryRateLimit(key: string, config: RateLimitConfig, now: number): RateLimitResult {
+  if (++checksSinceSweep >= MEMORY_SWEEP_INTERVAL) {
+    checksSinceSweep = 0;
+    sweepMemoryStore(now);
+  }
+
+  const windowMs = config.windowSeconds * 1000;
+  const timestamps = (memoryStore.get(key) ?? []).filter(timestamp => timestamp > now - windowMs);
+
+  const allowed = timestamps.length < config.limit;
+  if (allowed) {
+    timestamps.push(now);
+  }
+  memoryStore.set(key, timestamps);
+
+  return {
+    allowed,
+    limit: config.limit,
+    remaining: Math.max(config.limit - timestamps.length, 0),
+    reset: (timestamps[0] ?? now) + windowMs,
+  };
+}
+
+async function checkRedisRateLimit(key: string, config: RateLimitConfig, now: number): Promise<RateLimitResult> {
+  const [allowed, count, reset] = (await evalRedisScript(
+    SLIDING_WINDOW_SCRIPT,
+    [key],
+    [String(now), String(config.windowSeconds * 1000), String(config.limit), `${now}-${randomUUID()}`]
+  )) as [number, number, number];
+
+  return {
+    allowed: allowed === 1,
+    limit: config.limit,
+    remaining: Math.max(config.limit - count, 0),
+    reset,
+  };
+}
+
 /**
- * Simple in-memory rate limiter used for lightweight endpoints.
- * This is intentionally scoped to the NFT link status endpoint so that other
- * parts of the application remain unaffected.
+ * Counts a request against `key` and reports whether it is within the limit
  */
-export function checkRateLimit(
-  key: string,
-  config: RateLimitConfig
-): RateLimitResult {
+export async function checkRateLimit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
   const now = Date.now();
-  const windowMs = config.windowSeconds * 1000;
-  const existing = memoryStore.get(key);
-
-  if (!existing || existing.expiresAt <= now) {
-    const expiresAt = now + windowMs;
-    memoryStore.set(key, { count: 1, expiresAt });
-    return {
-      allowed: true,
-      remaining: Math.max(config.limit - 1, 0),
-      reset: expiresAt,
-    };
+
+  if (isRedisAvailable()) {
+    try {
+      return await checkRedisRateLimit(`ratelimit:${key}`, config, now);
+    } catch (error) {
+      console.error("Redis rate limit error, using the in-memory limiter:", error);
+    }
   }
 
-  const updatedCount = existing.count + 1;
-  const remaining = Math.max(config.limit - updatedCount, 0);
+  return checkMemoryRateLimit(key, config, now);
+}
+
+// Policies that already warned about requests without a client IP
+const unresolvedClientIpWarnings = new Set<RateLimitPolicyName>();
 
-  memoryStore.set(key, {
-    count: updatedCount,
-    expiresAt: existing.expiresAt,
-  });
+function warnUnresolvedClientIp(policyName: RateLimitPolicyName) {
+  if (unresolvedClientIpWarnings.has(policyName)) {
+    return;
+  }
+  unresolvedClientIpWarnings.add(policyName);
+  console.warn(
+    `⚠️ No client IP for ${policyName} requests - not rate limiting them. Check TRUSTED_PROXIES and X-Forwarded-For.`
+  );
+}
 
+/**
+ * RateLimit-* headers (IETF draft "RateLimit header fields for HTTP")
+ */
+function getRateLimitHeaders(result: RateLimitResult, config: RateLimitConfig): Record<string, string> {
   return {
-    allowed: updatedCount <= config.limit,
-    remaining,
-    reset: existing.expiresAt,
+    "RateLimit-Limit": result.limit.toString(),
+    "RateLimit-Remaining": result.remaining.toString(),
+    "RateLimit-Reset": Math.max(Math.ceil((result.reset - Date.now()) / 1000), 0).toString(),
+    "RateLimit-Policy": `${config.limit};w=${config.windowSeconds}`,
   };
 }
 
+/**
+ * Wraps a route handler with the named policy, keyed by the client IP the
+ * middleware resolved: over the limit it answers 429 with Retry-After,
+ * otherwise it runs the handler. Either way the response carries the
+ * RateLimit-* headers.
+ *
+ * Requests whose client IP can't be resolved are not limited (the handler
+ * gets a null result): one shared bucket would let a single client throttle
+ * everyone whenever TRUSTED_PROXIES doesn't match the deployment.
+ */
+export function withRateLimit(
+  policyName: RateLimitPolicyName,
+  handler: (req: NextRequest, rateLimit: RateLimitResult | null) => Promise<Response>
+): (req: NextRequest) => Promise<Response> {
+  const config = RATE_LIMIT_POLICIES[policyName];
 
+  return async (req: NextRequest) => {
+    const clientId = getClientIp(req);
+    if (!clientId) {
+      warnUnresolvedClientIp(policyName);
+      return handler(req, null);
+    }
+
+    const result = await checkRateLimit(`${policyName}:${clientId}`, config);
+    const headers = getRateLimitHeaders(result, config);
+
+    if (!result.allowed) {
+      console.log(`🚦 Rate limited ${policyName} for ${clientId}`);
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please wait a moment before trying again.",
+          resetAt: new Date(result.reset).toISOString(),
+        },
+        {
+          status: 429,
+          headers: { ...headers, "Retry-After": headers["RateLimit-Reset"] },
+        }
+      );
+    }
+
+    const response = await handler(req, result);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
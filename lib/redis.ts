@@ -1,5 +1,6 @@
 import { createClient } from "redis";
 import type { RedisClientType } from "redis";
+import type { CacheBackend } from "@/lib/cache";
 
 let redisClient: RedisClientType | null = null;
 let useRedis = false;
@@ -7,7 +8,7 @@ let useRedis = false;
 // Initialize Redis connection
 export async function initRedis(): Promise<void> {
   if (!process.env.REDIS_URL) {
-    console.log("⚠️  No REDIS_URL configured, Redis caching disabled");
+    console.log("⚠️  No REDIS_URL configured, using the in-memory cache");
     return;
   }
 
@@ -38,62 +39,42 @@ export async function initRedis(): Promise<void> {
     await redisClient.connect();
     useRedis = true;
   } catch (error) {
-    console.log("⚠️  Redis unavailable, caching disabled:", error instanceof Error ? error.message : "Unknown error");
+    console.log("⚠️  Redis unavailable, using the in-memory cache:", error instanceof Error ? error.message : "Unknown error");
     useRedis = false;
   }
 }
 
-// Get value from Redis cache
-export async function getCache(key: string): Promise<string | null> {
+function getClient(): RedisClientType {
   if (!useRedis || !redisClient) {
-    return null;
-  }
-
-  try {
-    const value = await redisClient.get(key);
-    return value;
-  } catch (error) {
-    console.error("Redis get error:", error);
-    return null;
+    throw new Error("Redis unavailable");
   }
+  return redisClient;
 }
 
-// Set value in Redis cache with expiration (in seconds)
-export async function setCache(
-  key: string,
-  value: string,
-  expirationSeconds?: number
-): Promise<boolean> {
-  if (!useRedis || !redisClient) {
-    return false;
-  }
+// Redis backend for lib/cache - errors propagate so the cache can fall back to memory
+export const redisCacheBackend: CacheBackend = {
+  name: "redis",
 
-  try {
+  async get(key) {
+    return getClient().get(key);
+  },
+
+  async set(key, value, expirationSeconds) {
     if (expirationSeconds) {
-      await redisClient.setEx(key, expirationSeconds, value);
+      await getClient().setEx(key, expirationSeconds, value);
     } else {
-      await redisClient.set(key, value);
+      await getClient().set(key, value);
     }
-    return true;
-  } catch (error) {
-    console.error("Redis set error:", error);
-    return false;
-  }
-}
+  },
 
-// Delete value from Redis cache
-export async function deleteCache(key: string): Promise<boolean> {
-  if (!useRedis || !redisClient) {
-    return false;
-  }
+  async delete(key) {
+    await getClient().del(key);
+  },
+};
 
-  try {
-    await redisClient.del(key);
-    return true;
-  } catch (error) {
-    console.error("Redis delete error:", error);
-    return false;
-  }
+// Run a Lua script atomically - throws when Redis is unavailable so callers can fall back
+export async function evalRedisScript(script: string, keys: string[], args: string[]): Promise<unknown> {
+  return getClient().eval(script, { keys, arguments: args });
 }
 
 // Check if Redis is available
@@ -0,0 +1,184 @@
+import type { NextRequest } from "next/server";
+
+/**
+ * Per-request context resolved once by the root middleware
+ *
+ * middleware.ts assigns the request ID and resolves the client IP, then
+ * forwards both to the route as request headers (overwriting anything the
+ * client sent under those names). Routes read them with getRequestId /
+ * getClientIp instead of parsing proxy headers themselves.
+ *
+ * Runs in the Edge runtime (middleware) as well as Node - no Node-only imports.
+ */
+
+export const REQUEST_ID_HEADER = "x-request-id";
+export const CLIENT_IP_HEADER = "x-client-ip";
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Named ranges usable in TRUSTED_PROXIES
+const TRUSTED_PROXY_ALIASES: Record<string, string[]> = {
+  loopback: ["127.0.0.0/8", "::1/128"],
+  private: ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "fc00::/7"],
+};
+
+interface IpRange {
+  version: 4 | 6;
+  address: bigint;
+  prefixLength: number;
+}
+
+/**
+ * Reuses an upstream request ID when it looks sane, otherwise generates one
+ */
+export function resolveRequestId(incomingId: string | null): string {
+  return incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+}
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => (value << BigInt(8)) | BigInt(part), BigInt(0));
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // IPv4-mapped / -embedded tail, e.g. ::ffff:192.0.2.1
+  const lastColon = ip.lastIndexOf(":");
+  const tail = ip.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const ipv4 = parseIPv4(tail);
+    if (ipv4 === null) {
+      return null;
+    }
+    ip = `${ip.slice(0, lastColon + 1)}${(ipv4 >> BigInt(16)).toString(16)}:${(ipv4 & BigInt(0xffff)).toString(16)}`;
+  }
+
+  const halves = ip.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) {
+    return null;
+  }
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (!groups.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) {
+    return null;
+  }
+  return groups.reduce((value, group) => (value << BigInt(16)) | BigInt(parseInt(group, 16)), BigInt(0));
+}
+
+function parseIp(ip: string): { version: 4 | 6; address: bigint } | null {
+  const ipv4 = parseIPv4(ip);
+  if (ipv4 !== null) {
+    return { version: 4, address: ipv4 };
+  }
+
+  const ipv6 = parseIPv6(ip);
+  if (ipv6 === null) {
+    return null;
+  }
+  // Compare IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) as IPv4
+  if (ipv6 >> BigInt(32) === BigInt(0xffff)) {
+    return { version: 4, address: ipv6 & BigInt(0xffffffff) };
+  }
+  return { version: 6, address: ipv6 };
+}
+
+function parseRange(entry: string): IpRange | null {
+  const [ip, prefix] = entry.split("/");
+  const parsed = parseIp(ip);
+  if (!parsed) {
+    return null;
+  }
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  const prefixLength = prefix === undefined ? bits : Number(prefix);
+  if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > bits) {
+    return null;
+  }
+  return { ...parsed, prefixLength };
+}
+
+/**
+ * Parses a comma-separated list of IPs, CIDR ranges and aliases ("loopback", "private")
+ */
+export function parseTrustedProxies(value: string | undefined): IpRange[] {
+  return (value ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => TRUSTED_PROXY_ALIASES[entry.toLowerCase()] ?? [entry])
+    .flatMap(entry => {
+      const range = parseRange(entry);
+      if (!range) {
+        console.warn(`⚠️ Ignoring invalid TRUSTED_PROXIES entry: ${entry}`);
+        return [];
+      }
+      return [range];
+    });
+}
+
+function isInRange(ip: { version: 4 | 6; address: bigint }, range: IpRange): boolean {
+  if (ip.version !== range.version) {
+    return false;
+  }
+  const shift = BigInt((range.version === 4 ? 32 : 128) - range.prefixLength);
+  return ip.address >> shift === range.address >> shift;
+}
+
+function isTrustedProxy(ip: string, trustedProxies: IpRange[]): boolean {
+  const parsed = parseIp(ip);
+  return parsed !== null && trustedProxies.some(range => isInRange(parsed, range));
+}
+
+function normalizeForwardedIp(value: string): string {
+  const ip = value.trim();
+  // [2001:db8::1]:443 and 192.0.2.1:443 - drop brackets and ports
+  const bracketed = ip.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  const ipv4WithPort = ip.match(/^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/);
+  return ipv4WithPort ? ipv4WithPort[1] : ip;
+}
+
+/**
+ * Client IP from X-Forwarded-For, trusting only hops added by `trustedProxies`:
+ * the list is walked from the right (the hop closest to us) and the first
+ * address that isn't a trusted proxy is the client. Entries further left were
+ * supplied by the client and are ignored.
+ * @returns null when no valid address is found
+ */
+export function resolveClientIp(forwardedFor: string | null, trustedProxies: IpRange[]): string | null {
+  const hops = (forwardedFor ?? "")
+    .split(",")
+    .map(normalizeForwardedIp)
+    .filter(hop => parseIp(hop) !== null);
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(hops[i], trustedProxies) || i === 0) {
+      return hops[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Request ID assigned by the middleware (a fresh one if it didn't run)
+ */
+export function getRequestId(req: NextRequest): string {
+  return resolveRequestId(req.headers.get(REQUEST_ID_HEADER));
+}
+
+/**
+ * Client IP resolved by the middleware (null if it couldn't be determined)
+ */
+export function getClientIp(req: NextRequest): string | null {
+  return req.headers.get(CLIENT_IP_HEADER) || null;
+}
@@ -0,0 +1,212 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { SessionTokenError } from "@/lib/errors";
+
+/**
+ * Verification session tokens
+ *
+ * verify-solana issues a short-lived HS256 JWT once a wallet has proven key
+ * ownership. link-evm requires it, so links can only be created for Solana
+ * addresses (and NFTs) that were actually verified in this session.
+ *
+ * Admin sessions (app/api/admin/session) use the same format with their own audience.
+ */
+
+// Token lifetime in seconds (15 minutes)
+export const VERIFICATION_TOKEN_TTL_SECONDS = Number(
+  process.env.VERIFICATION_TOKEN_TTL_SECONDS ?? 15 * 60
+);
+
+const TOKEN_AUDIENCE = "link-evm";
+
+// Admin session lifetime in seconds (1 hour)
+export const ADMIN_SESSION_TTL_SECONDS = 60 * 60;
+
+const ADMIN_TOKEN_AUDIENCE = "admin";
+
+export interface VerifiedNFT {
+  mintAddress: string;
+  tokenId: string;
+}
+
+export interface VerificationClaims {
+  /** Verified Solana address */
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  /** How ownership was proven (signature encoder or "memo-transaction") */
+  method: string;
+  /** Collection the NFTs were verified for */
+  collectionId: string;
+  /** NFTs held by the wallet at verification time */
+  nfts: VerifiedNFT[];
+}
+
+export interface AdminSessionClaims {
+  /** Admin wallet address (AdminWallet.address) */
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+// Development-only fallback so local setups work without extra config
+let developmentSecret: Buffer | null = null;
+
+function getSessionSecret(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+
+  if (secret) {
+    return Buffer.from(secret, "utf8");
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET not configured");
+  }
+
+  if (!developmentSecret) {
+    console.warn("⚠️  No SESSION_SECRET configured, using a random per-process secret");
+    developmentSecret = randomBytes(32);
+  }
+  return developmentSecret;
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string): Buffer {
+  return createHmac("sha256", getSessionSecret()).update(data).digest();
+}
+
+function encodeToken(claims: object): string {
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = base64url(sign(`${header}.${payload}`));
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Checks signature, algorithm and audience and returns the raw claims
+ * @throws SessionTokenError naming `label` ("verification token", "admin session")
+ */
+function decodeToken<T extends { aud: string; exp: number }>(token: string, audience: string, label: string): T {
+  const parts = typeof token === "string" ? token.split(".") : [];
+  if (parts.length !== 3) {
+    throw new SessionTokenError(`Malformed ${label}`);
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = sign(`${header}.${payload}`);
+  const provided = Buffer.from(signature, "base64url");
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new SessionTokenError(`Invalid ${label} signature`);
+  }
+
+  let claims: T;
+  try {
+    const parsedHeader = JSON.parse(Buffer.from(header, "base64url").toString("utf8"));
+    if (parsedHeader.alg !== "HS256") {
+      throw new Error("Unsupported algorithm");
+    }
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new SessionTokenError(`Malformed ${label}`);
+  }
+
+  if (claims.aud !== audience) {
+    throw new SessionTokenError(`${label[0].toUpperCase()}${label.slice(1)} audience mismatch`);
+  }
+
+  return claims;
+}
+
+/**
+ * Issues a signed verification token for a Solana address and its proven NFTs
+ */
+export function createVerificationToken({
+  solanaAddress,
+  collectionId,
+  nfts,
+  method,
+}: {
+  solanaAddress: string;
+  collectionId: string;
+  nfts: VerifiedNFT[];
+  method: string;
+}): { token: string; expiresAt: Date } {
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: VerificationClaims = {
+    sub: solanaAddress,
+    aud: TOKEN_AUDIENCE,
+    iat,
+    exp: iat + VERIFICATION_TOKEN_TTL_SECONDS,
+    jti: randomUUID(),
+    method,
+    collectionId,
+    nfts: nfts.map(({ mintAddress, tokenId }) => ({ mintAddress, tokenId })),
+  };
+
+  return {
+    token: encodeToken(claims),
+    expiresAt: new Date(claims.exp * 1000),
+  };
+}
+
+/**
+ * Verifies a token's signature, audience and expiry and returns its claims
+ * @throws SessionTokenError if the token is malformed, forged or expired
+ */
+export function verifyVerificationToken(token: string): VerificationClaims {
+  const claims = decodeToken<VerificationClaims>(token, TOKEN_AUDIENCE, "verification token");
+
+  if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) {
+    throw new SessionTokenError("Verification token expired - please verify your Solana wallet again");
+  }
+
+  if (typeof claims.sub !== "string" || typeof claims.collectionId !== "string" || !Array.isArray(claims.nfts)) {
+    throw new SessionTokenError("Malformed verification token");
+  }
+
+  return claims;
+}
+
+/**
+ * Issues an admin session for a wallet that signed in through /api/admin/session.
+ * The role isn't part of the token - it is read from AdminWallet on every request.
+ */
+export function createAdminSessionToken(address: string): { token: string; expiresAt: Date } {
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: AdminSessionClaims = {
+    sub: address,
+    aud: ADMIN_TOKEN_AUDIENCE,
+    iat,
+    exp: iat + ADMIN_SESSION_TTL_SECONDS,
+    jti: randomUUID(),
+  };
+
+  return {
+    token: encodeToken(claims),
+    expiresAt: new Date(claims.exp * 1000),
+  };
+}
+
+/**
+ * @throws SessionTokenError if the token is malformed, forged, expired or not an admin session
+ */
+export function verifyAdminSessionToken(token: string): AdminSessionClaims {
+  const claims = decodeToken<AdminSessionClaims>(token, ADMIN_TOKEN_AUDIENCE, "admin session");
+
+  if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) {
+    throw new SessionTokenError("Admin session expired - please sign in again");
+  }
+
+  if (typeof claims.sub !== "string") {
+    throw new SessionTokenError("Malformed admin session");
+  }
+
+  return claims;
+}
@@ -0,0 +1,133 @@
+/**
+ * EVM signature verification for EOAs and smart-contract wallets
+ *
+ * - EOA: ecrecover of the EIP-191 personal_sign hash
+ * - EIP-1271: deployed contract wallets (Safe, Argent, ...) via isValidSignature
+ * - ERC-6492: counterfactual (not yet deployed) wallets via the universal validator
+ *
+ * Contract checks go through EVM_RPC_URL so they can run against a local
+ * anvil/hardhat node in development.
+ */
+
+import {
+  createPublicClient,
+  hashMessage,
+  http,
+  isAddressEqual,
+  isErc6492Signature,
+  recoverMessageAddress,
+  type Hex,
+  type PublicClient,
+} from "viem";
+
+export type EvmSignatureMethod = "eoa" | "eip1271" | "erc6492";
+
+export type EvmSignatureResult =
+  | { valid: true; method: EvmSignatureMethod }
+  | { valid: false };
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+
+const erc1271Abi = [
+  {
+    name: "isValidSignature",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "hash", type: "bytes32" },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [{ name: "magicValue", type: "bytes4" }],
+  },
+] as const;
+
+let evmClient: PublicClient | null = null;
+
+/**
+ * Lazily creates the public client used for contract wallet checks
+ */
+export function getEvmClient(): PublicClient {
+  if (!evmClient) {
+    evmClient = createPublicClient({
+      transport: http(process.env.EVM_RPC_URL || "https://eth.llamarpc.com"),
+    });
+  }
+  return evmClient;
+}
+
+async function recoversTo(address: Hex, message: string, signature: Hex): Promise<boolean> {
+  try {
+    const recovered = await recoverMessageAddress({ message, signature });
+    return isAddressEqual(recovered, address);
+  } catch {
+    // Not a 65 byte ECDSA signature - may still be a contract wallet signature
+    return false;
+  }
+}
+
+async function isValidEip1271Signature(
+  client: PublicClient,
+  address: Hex,
+  message: string,
+  signature: Hex
+): Promise<boolean> {
+  const code = await client.getCode({ address });
+  if (!code || code === "0x") {
+    return false;
+  }
+
+  try {
+    const magicValue = await client.readContract({
+      address,
+      abi: erc1271Abi,
+      functionName: "isValidSignature",
+      args: [hashMessage(message), signature],
+    });
+    return magicValue.toLowerCase() === EIP1271_MAGIC_VALUE;
+  } catch (error) {
+    console.warn("EIP-1271 isValidSignature call failed:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Verifies a personal_sign signature for an EOA, a deployed contract wallet,
+ * or a counterfactual ERC-6492 wallet, and reports which method succeeded.
+ */
+export async function verifyEvmSignature(
+  {
+    address,
+    message,
+    signature,
+  }: {
+    address: string;
+    message: string;
+    signature: string;
+  },
+  client: PublicClient = getEvmClient()
+): Promise<EvmSignatureResult> {
+  const evmAddress = address as Hex;
+  const evmSignature = signature as Hex;
+
+  // ERC-6492 wraps the signature with the factory call needed to deploy the wallet;
+  // viem simulates the deployment with the universal validator in a single eth_call
+  if (isErc6492Signature(evmSignature)) {
+    const valid = await client.verifyMessage({
+      address: evmAddress,
+      message,
+      signature: evmSignature,
+    });
+    return valid ? { valid: true, method: "erc6492" } : { valid: false };
+  }
+
+  if (await recoversTo(evmAddress, message, evmSignature)) {
+    return { valid: true, method: "eoa" };
+  }
+
+  if (await isValidEip1271Signature(client, evmAddress, message, evmSignature)) {
+    return { valid: true, method: "eip1271" };
+  }
+
+  return { valid: false };
+}
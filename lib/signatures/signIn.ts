@@ -0,0 +1,233 @@
+/**
+ * CAIP-122 "Sign in with X" messages
+ *
+ * Shared message format behind Sign-In-With-Solana (SIWS) and
+ * Sign-In-With-Ethereum (EIP-4361). The server issues the full message so the
+ * wallet shows the user which domain is asking, and so a signature collected
+ * by a phishing site carries the wrong domain and can't be replayed here.
+ *
+ * Spec: https://github.com/ChainAgnostic/CAIPs/blob/main/CAIPs/caip-122.md
+ */
+
+import { SignInMessageError } from "@/lib/errors";
+
+export type SignInChain = "Solana" | "Ethereum";
+
+export interface SignInMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+}
+
+export interface SignInMessage extends SignInMessageFields {
+  chain: SignInChain;
+}
+
+export const SIGN_IN_MESSAGE_VERSION = "1";
+
+export const SIGN_IN_STATEMENT =
+  "Link your Wassieverse NFTs to an EVM wallet. This request will not trigger a blockchain transaction or cost any gas fees.";
+
+// Field labels in the order they must appear in the message
+const FIELD_LABELS: [keyof SignInMessageFields, string][] = [
+  ["uri", "URI"],
+  ["version", "Version"],
+  ["chainId", "Chain ID"],
+  ["nonce", "Nonce"],
+  ["issuedAt", "Issued At"],
+  ["expirationTime", "Expiration Time"],
+  ["notBefore", "Not Before"],
+  ["requestId", "Request ID"],
+];
+
+const HEADER_PATTERN = /^(\S+) wants you to sign in with your (Solana|Ethereum) account:$/;
+
+/**
+ * Builds the plain-text message the wallet is asked to sign.
+ */
+export function formatSignInMessage(message: SignInMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your ${message.chain} account:`,
+    message.address,
+    "",
+  ];
+
+  if (message.statement) {
+    lines.push(message.statement, "");
+  }
+
+  for (const [key, label] of FIELD_LABELS) {
+    const value = message[key];
+    if (value) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Parses a CAIP-122 message back into its fields.
+ * @throws SignInMessageError if the message doesn't follow the format
+ */
+export function parseSignInMessage(text: string): SignInMessage {
+  const lines = text.split("\n");
+
+  const header = HEADER_PATTERN.exec(lines[0] ?? "");
+  if (!header) {
+    throw new SignInMessageError("Message is not a sign-in message");
+  }
+
+  const address = lines[1];
+  if (!address || lines[2] !== "") {
+    throw new SignInMessageError("Message is missing the account address");
+  }
+
+  let index = 3;
+
+  // Optional statement, followed by a blank line
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index].startsWith("URI: ")) {
+    statement = lines[index];
+    if (lines[index + 1] !== "") {
+      throw new SignInMessageError("Statement must be followed by a blank line");
+    }
+    index += 2;
+  }
+
+  const fields: Partial<SignInMessageFields> = {};
+  let labelIndex = 0;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    // Fields must appear in spec order, optional ones may be skipped
+    while (labelIndex < FIELD_LABELS.length && !line.startsWith(`${FIELD_LABELS[labelIndex][1]}: `)) {
+      labelIndex++;
+    }
+
+    if (labelIndex === FIELD_LABELS.length) {
+      throw new SignInMessageError(`Unexpected line in sign-in message: ${line}`);
+    }
+
+    const [key, label] = FIELD_LABELS[labelIndex];
+    fields[key] = line.slice(label.length + 2);
+    labelIndex++;
+  }
+
+  if (!fields.uri || !fields.version || !fields.chainId || !fields.nonce || !fields.issuedAt) {
+    throw new SignInMessageError("Message is missing required fields");
+  }
+
+  return {
+    ...fields,
+    chain: header[2] as SignInChain,
+    domain: header[1],
+    address,
+    statement,
+  } as SignInMessage;
+}
+
+export interface SignInConfig {
+  domain: string;
+  uri: string;
+}
+
+/**
+ * Resolves the domain and URI that sign-in messages must be bound to.
+ * SIGN_IN_DOMAIN is required in production; in development we fall back to
+ * the request host so localhost works without extra configuration.
+ */
+export function getSignInConfig(requestUrl: string): SignInConfig {
+  const configuredDomain = process.env.SIGN_IN_DOMAIN;
+
+  if (configuredDomain) {
+    return {
+      domain: configuredDomain,
+      uri: process.env.SIGN_IN_URI || `https://${configuredDomain}`,
+    };
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SIGN_IN_DOMAIN not configured");
+  }
+
+  const url = new URL(requestUrl);
+  return { domain: url.host, uri: url.origin };
+}
+
+export interface ExpectedSignInFields {
+  chain: SignInChain;
+  domain: string;
+  uri: string;
+  chainId: string;
+  address: string;
+  nonce?: string;
+}
+
+/**
+ * Checks a parsed message against the values the server expects.
+ * @throws SignInMessageError describing the first mismatch
+ */
+export function validateSignInMessage(
+  message: SignInMessage,
+  expected: ExpectedSignInFields,
+  now: Date = new Date()
+): void {
+  if (message.chain !== expected.chain) {
+    throw new SignInMessageError(`Expected a ${expected.chain} sign-in message`);
+  }
+
+  if (message.domain !== expected.domain) {
+    throw new SignInMessageError("Message domain does not match");
+  }
+
+  if (message.uri !== expected.uri) {
+    throw new SignInMessageError("Message URI does not match");
+  }
+
+  if (message.version !== SIGN_IN_MESSAGE_VERSION) {
+    throw new SignInMessageError("Unsupported message version");
+  }
+
+  if (message.chainId !== expected.chainId) {
+    throw new SignInMessageError("Message chain ID does not match");
+  }
+
+  if (message.address !== expected.address) {
+    throw new SignInMessageError("Message address does not match");
+  }
+
+  if (expected.nonce && message.nonce !== expected.nonce) {
+    throw new SignInMessageError("Message nonce does not match");
+  }
+
+  const issuedAt = Date.parse(message.issuedAt);
+  if (Number.isNaN(issuedAt) || issuedAt > now.getTime()) {
+    throw new SignInMessageError("Message issued-at time is invalid");
+  }
+
+  if (!message.expirationTime) {
+    throw new SignInMessageError("Message has no expiration time");
+  }
+
+  const expiresAt = Date.parse(message.expirationTime);
+  if (Number.isNaN(expiresAt) || expiresAt <= now.getTime()) {
+    throw new SignInMessageError("Message has expired");
+  }
+
+  if (message.notBefore) {
+    const notBefore = Date.parse(message.notBefore);
+    if (Number.isNaN(notBefore) || notBefore > now.getTime()) {
+      throw new SignInMessageError("Message is not valid yet");
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Sign-In-With-Ethereum (EIP-4361) helpers built on viem's SIWE support
+ */
+
+import { getAddress, isAddress } from "viem";
+import { createSiweMessage as formatSiweMessage, parseSiweMessage } from "viem/siwe";
+import { SignInMessageError } from "@/lib/errors";
+import {
+  SIGN_IN_MESSAGE_VERSION,
+  SIGN_IN_STATEMENT,
+  validateSignInMessage,
+  type SignInConfig,
+  type SignInMessage,
+} from "./signIn";
+
+// EIP-155 chain ID that SIWE messages are issued for (1 = Ethereum mainnet)
+export const EVM_CHAIN_ID = Number(process.env.EVM_CHAIN_ID || 1);
+
+/**
+ * Returns true if the address looks like an EVM (0x-prefixed, 20 byte) address
+ */
+export function isEvmAddress(address: string): boolean {
+  return isAddress(address);
+}
+
+export interface CreateSiweMessageParams {
+  address: string;
+  nonce: string;
+  requestId: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  config: SignInConfig;
+}
+
+export function createSiweMessage({
+  address,
+  nonce,
+  requestId,
+  issuedAt,
+  expiresAt,
+  config,
+}: CreateSiweMessageParams): string {
+  // viem writes the EIP-55 checksummed address that EIP-4361 requires
+  return formatSiweMessage({
+    domain: config.domain,
+    address: getAddress(address),
+    statement: SIGN_IN_STATEMENT,
+    uri: config.uri,
+    version: SIGN_IN_MESSAGE_VERSION,
+    chainId: EVM_CHAIN_ID,
+    nonce,
+    issuedAt,
+    expirationTime: expiresAt,
+    requestId,
+  });
+}
+
+/**
+ * Parses a signed SIWE message and checks it is bound to our domain,
+ * chain, the expected EVM address and an unexpired window.
+ * @throws SignInMessageError if anything doesn't match
+ */
+export function verifySiweMessage(
+  text: string,
+  expected: { address: string; config: SignInConfig }
+): SignInMessage {
+  if (!isEvmAddress(expected.address)) {
+    throw new SignInMessageError("Invalid EVM address");
+  }
+
+  const message = parseSiweText(text);
+
+  validateSignInMessage(message, {
+    chain: "Ethereum",
+    domain: expected.config.domain,
+    uri: expected.config.uri,
+    chainId: String(EVM_CHAIN_ID),
+    address: getAddress(expected.address),
+  });
+
+  return message;
+}
+
+/**
+ * viem's parser picks the fields out of the text and skips anything it
+ * doesn't recognise, so the message only counts if rebuilding it from those
+ * fields gives back exactly the text that was signed.
+ */
+function parseSiweText(text: string): SignInMessage {
+  const fields = parseSiweMessage(text);
+  const { address, chainId, domain, issuedAt, nonce, uri, version } = fields;
+
+  if (!address || !chainId || !domain || !issuedAt || !nonce || !uri || !version) {
+    throw new SignInMessageError("Message is not a SIWE message");
+  }
+
+  let canonical: string;
+  try {
+    canonical = formatSiweMessage({ ...fields, address, chainId, domain, issuedAt, nonce, uri, version });
+  } catch {
+    throw new SignInMessageError("Message has invalid SIWE fields");
+  }
+  if (canonical !== text) {
+    throw new SignInMessageError("Message does not follow the SIWE format");
+  }
+
+  return {
+    chain: "Ethereum",
+    domain,
+    address,
+    statement: fields.statement,
+    uri,
+    version,
+    chainId: String(chainId),
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: fields.expirationTime?.toISOString(),
+    notBefore: fields.notBefore?.toISOString(),
+    requestId: fields.requestId,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Sign-In-With-Solana (SIWS) helpers built on the CAIP-122 message format
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import {
+  SIGN_IN_MESSAGE_VERSION,
+  SIGN_IN_STATEMENT,
+  formatSignInMessage,
+  parseSignInMessage,
+  validateSignInMessage,
+  type SignInConfig,
+  type SignInMessage,
+} from "./signIn";
+
+// SIWS uses the cluster name as the chain ID ("mainnet", "devnet", ...)
+export const SOLANA_CHAIN_ID = process.env.SOLANA_CHAIN_ID || "mainnet";
+
+/**
+ * Returns true if the address is a valid base58 Solana public key
+ */
+export function isSolanaAddress(address: unknown): address is string {
+  if (typeof address !== "string" || !address) {
+    return false;
+  }
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface CreateSiwsMessageParams {
+  address: string;
+  nonce: string;
+  requestId: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  config: SignInConfig;
+}
+
+export function createSiwsMessage({
+  address,
+  nonce,
+  requestId,
+  issuedAt,
+  expiresAt,
+  config,
+}: CreateSiwsMessageParams): string {
+  return formatSignInMessage({
+    chain: "Solana",
+    domain: config.domain,
+    address,
+    statement: SIGN_IN_STATEMENT,
+    uri: config.uri,
+    version: SIGN_IN_MESSAGE_VERSION,
+    chainId: SOLANA_CHAIN_ID,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: expiresAt.toISOString(),
+    requestId,
+  });
+}
+
+/**
+ * Memo text for wallets that prove ownership with a signed memo transaction
+ * instead of an off-chain message. Carries the domain for the same
+ * anti-phishing reason as the SIWS message.
+ */
+export function createSignInMemo(domain: string, nonce: string): string {
+  return `Sign in to ${domain}: ${nonce}`;
+}
+
+/**
+ * Parses a signed SIWS message and checks it is bound to our domain,
+ * the expected wallet and an unexpired window.
+ * @throws SignInMessageError if anything doesn't match
+ */
+export function verifySiwsMessage(
+  text: string,
+  expected: { address: string; config: SignInConfig; nonce?: string }
+): SignInMessage {
+  const message = parseSignInMessage(text);
+
+  validateSignInMessage(message, {
+    chain: "Solana",
+    domain: expected.config.domain,
+    uri: expected.config.uri,
+    chainId: SOLANA_CHAIN_ID,
+    address: expected.address,
+    nonce: expected.nonce,
+  });
+
+  return message;
+}
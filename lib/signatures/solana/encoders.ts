@@ -0,0 +1,122 @@
+import {
+  concatBytes,
+  encodeLegacyOffchainMessage,
+  encodeOffchainMessage,
+} from "./offchainMessage";
+
+export interface SolanaEncoderContext {
+  /** Public key of the expected signer */
+  publicKey: Uint8Array;
+  /** Optional 32 byte application domain for the off-chain message header */
+  applicationDomain?: Uint8Array;
+}
+
+/**
+ * A named byte layout that a wallet may have signed instead of the raw message.
+ */
+export interface SolanaMessageEncoder {
+  name: string;
+  description: string;
+  encode: (message: Uint8Array, context: SolanaEncoderContext) => Uint8Array;
+}
+
+// Old hand-rolled layouts used "solana offchain" without the 0xff prefix
+const LEGACY_DOMAIN = new TextEncoder().encode("solana offchain");
+
+function u32LE(value: number): Uint8Array {
+  return new Uint8Array([
+    value & 0xff,
+    (value >> 8) & 0xff,
+    (value >> 16) & 0xff,
+    (value >> 24) & 0xff,
+  ]);
+}
+
+function u32BE(value: number): Uint8Array {
+  return new Uint8Array([
+    (value >> 24) & 0xff,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ]);
+}
+
+/**
+ * Built-in encoders, in the order they are tried.
+ * Spec-compliant layouts come first; the legacy layouts are kept so wallets
+ * that were verified by the previous inline implementation keep working.
+ */
+export const DEFAULT_SOLANA_ENCODERS: SolanaMessageEncoder[] = [
+  {
+    name: "raw",
+    description: "Raw message bytes (Phantom, Solflare, Backpack signMessage)",
+    encode: (message) => message,
+  },
+  {
+    name: "offchain-v0",
+    description: "Solana off-chain message v0 with application domain and signer list",
+    encode: (message, { publicKey, applicationDomain }) =>
+      encodeOffchainMessage(message, { applicationDomain, signers: [publicKey] }),
+  },
+  {
+    name: "offchain-v0-legacy",
+    description: "Solana off-chain message v0 as produced by the CLI and Ledger app",
+    encode: (message) => encodeLegacyOffchainMessage(message),
+  },
+  {
+    name: "legacy-domain-length-le",
+    description: "DOMAIN + LENGTH(LE) + MESSAGE",
+    encode: (message) => concatBytes([LEGACY_DOMAIN, u32LE(message.length), message]),
+  },
+  {
+    name: "legacy-version-domain-length-le",
+    description: "VERSION + DOMAIN + LENGTH(LE) + MESSAGE",
+    encode: (message) =>
+      concatBytes([new Uint8Array([0]), LEGACY_DOMAIN, u32LE(message.length), message]),
+  },
+  {
+    name: "legacy-domain",
+    description: "DOMAIN + MESSAGE (no length)",
+    encode: (message) => concatBytes([LEGACY_DOMAIN, message]),
+  },
+  {
+    name: "legacy-version-domain",
+    description: "VERSION + DOMAIN + MESSAGE (no length)",
+    encode: (message) => concatBytes([new Uint8Array([0]), LEGACY_DOMAIN, message]),
+  },
+  {
+    name: "legacy-domain-length-be",
+    description: "DOMAIN + LENGTH(BE) + MESSAGE",
+    encode: (message) => concatBytes([LEGACY_DOMAIN, u32BE(message.length), message]),
+  },
+];
+
+const registry = new Map<string, SolanaMessageEncoder>(
+  DEFAULT_SOLANA_ENCODERS.map((encoder) => [encoder.name, encoder])
+);
+
+/**
+ * Registers an additional encoder (or replaces one with the same name).
+ * New encoders are tried after the built-in ones.
+ */
+export function registerSolanaEncoder(encoder: SolanaMessageEncoder): void {
+  registry.set(encoder.name, encoder);
+}
+
+/**
+ * Returns the registered encoders in the order they should be tried.
+ * Pass `names` to restrict verification to specific layouts.
+ */
+export function getSolanaEncoders(names?: string[]): SolanaMessageEncoder[] {
+  if (!names) {
+    return Array.from(registry.values());
+  }
+
+  return names.map((name) => {
+    const encoder = registry.get(name);
+    if (!encoder) {
+      throw new Error(`Unknown Solana message encoder: ${name}`);
+    }
+    return encoder;
+  });
+}
@@ -0,0 +1,108 @@
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import { SignatureVerificationError } from "@/lib/errors";
+import { getSolanaEncoders } from "./encoders";
+
+export {
+  DEFAULT_SOLANA_ENCODERS,
+  getSolanaEncoders,
+  registerSolanaEncoder,
+} from "./encoders";
+export type { SolanaEncoderContext, SolanaMessageEncoder } from "./encoders";
+export { MEMO_PROGRAM_IDS, createMemoTransaction, verifyMemoTransaction } from "./memoTransaction";
+export type { VerifyMemoTransactionParams } from "./memoTransaction";
+export {
+  OffchainMessageFormat,
+  encodeLegacyOffchainMessage,
+  encodeOffchainMessage,
+  selectOffchainMessageFormat,
+} from "./offchainMessage";
+
+export interface VerifySolanaSignatureParams {
+  /** Base58 encoded Solana address of the signer */
+  address: string;
+  /** The message content the wallet was asked to sign */
+  message: string | Uint8Array;
+  /** Base58 string or raw 64 byte Ed25519 signature */
+  signature: string | Uint8Array;
+  /** Restrict verification to these encoder names (defaults to all registered) */
+  encoders?: string[];
+  /** 32 byte application domain used by the "offchain-v0" encoder */
+  applicationDomain?: Uint8Array;
+}
+
+export type SolanaSignatureResult =
+  | { verified: true; encoder: string }
+  | { verified: false; attempted: string[] };
+
+/**
+ * Decodes a Solana signature and checks its length.
+ * Throws SignatureVerificationError for malformed input.
+ */
+export function decodeSolanaSignature(signature: string | Uint8Array): Uint8Array {
+  let signatureBytes: Uint8Array;
+
+  if (typeof signature === "string") {
+    try {
+      signatureBytes = bs58.decode(signature);
+    } catch {
+      throw new SignatureVerificationError("Invalid signature format");
+    }
+  } else {
+    signatureBytes = signature;
+  }
+
+  if (signatureBytes.length !== nacl.sign.signatureLength) {
+    throw new SignatureVerificationError(
+      `Invalid signature length: ${signatureBytes.length}, expected ${nacl.sign.signatureLength}`
+    );
+  }
+
+  return signatureBytes;
+}
+
+/**
+ * Verifies an Ed25519 signature against every registered message layout
+ * and reports which encoder matched.
+ *
+ * @throws SignatureVerificationError if the address or signature is malformed
+ */
+export function verifySolanaSignature({
+  address,
+  message,
+  signature,
+  encoders,
+  applicationDomain,
+}: VerifySolanaSignatureParams): SolanaSignatureResult {
+  let publicKeyBytes: Uint8Array;
+  try {
+    publicKeyBytes = new PublicKey(address).toBytes();
+  } catch {
+    throw new SignatureVerificationError("Invalid Solana address");
+  }
+
+  const signatureBytes = decodeSolanaSignature(signature);
+  const messageBytes =
+    typeof message === "string" ? new TextEncoder().encode(message) : message;
+
+  const attempted: string[] = [];
+
+  for (const encoder of getSolanaEncoders(encoders)) {
+    attempted.push(encoder.name);
+
+    let encoded: Uint8Array;
+    try {
+      encoded = encoder.encode(messageBytes, { publicKey: publicKeyBytes, applicationDomain });
+    } catch {
+      // Layout can't represent this message (e.g. too long) - try the next one
+      continue;
+    }
+
+    if (nacl.sign.detached.verify(encoded, signatureBytes, publicKeyBytes)) {
+      return { verified: true, encoder: encoder.name };
+    }
+  }
+
+  return { verified: false, attempted };
+}
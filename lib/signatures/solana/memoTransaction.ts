@@ -0,0 +1,120 @@
+/**
+ * Proof of key ownership via a signed (never broadcast) memo transaction
+ *
+ * Some hardware wallets (notably Ledger) can't sign arbitrary off-chain
+ * messages but can always sign transactions. The client builds a transaction
+ * whose only instruction is a Memo carrying the server-issued challenge,
+ * has the wallet sign it, and sends the serialized bytes here instead of
+ * submitting them to the network.
+ */
+
+import {
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import nacl from "tweetnacl";
+import { SignatureVerificationError } from "@/lib/errors";
+
+export const MEMO_PROGRAM_IDS = [
+  "MemoSq4gqABAXKb96qnzMwb8xM3ZF9s6BnrZ9YxCS5d", // SPL Memo v2
+  "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo", // SPL Memo v1
+];
+
+// Wallets commonly prepend compute budget instructions; they're harmless here
+const COMPUTE_BUDGET_PROGRAM_ID = "ComputeBudget111111111111111111111111111111";
+
+export interface VerifyMemoTransactionParams {
+  /** Base58 encoded Solana address expected to be the fee payer */
+  address: string;
+  /** Base64 encoded signed transaction (legacy or v0) */
+  transaction: string;
+  /** Exact memo text the transaction must carry */
+  expectedMemo: string;
+}
+
+/**
+ * Builds the unsigned proof transaction for `address`: a legacy transaction
+ * (signable by every wallet) whose only instruction is a Memo carrying
+ * `memo`. It is never submitted, so the blockhash is a placeholder.
+ */
+export function createMemoTransaction(address: string, memo: string): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: new PublicKey(address),
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [
+      new TransactionInstruction({
+        programId: new PublicKey(MEMO_PROGRAM_IDS[0]),
+        keys: [],
+        data: Buffer.from(memo, "utf8"),
+      }),
+    ],
+  }).compileToLegacyMessage();
+
+  return new VersionedTransaction(message);
+}
+
+/**
+ * Checks that the transaction is signed by `address` as fee payer and only
+ * carries the expected memo.
+ *
+ * @throws SignatureVerificationError describing why the proof was rejected
+ */
+export function verifyMemoTransaction({
+  address,
+  transaction,
+  expectedMemo,
+}: VerifyMemoTransactionParams): void {
+  let tx: VersionedTransaction;
+  try {
+    tx = VersionedTransaction.deserialize(Buffer.from(transaction, "base64"));
+  } catch {
+    throw new SignatureVerificationError("Invalid transaction encoding");
+  }
+
+  const { message } = tx;
+  const accountKeys = message.staticAccountKeys;
+
+  if (message.addressTableLookups.length > 0) {
+    throw new SignatureVerificationError("Address lookup tables are not allowed in the proof transaction");
+  }
+
+  // The fee payer is always the first account and the first signature
+  const feePayer = accountKeys[0];
+  if (!feePayer || !feePayer.equals(new PublicKey(address))) {
+    throw new SignatureVerificationError("Transaction fee payer does not match wallet address");
+  }
+
+  const feePayerSignature = tx.signatures[0];
+  if (
+    !feePayerSignature ||
+    !nacl.sign.detached.verify(message.serialize(), feePayerSignature, feePayer.toBytes())
+  ) {
+    throw new SignatureVerificationError("Invalid fee payer signature");
+  }
+
+  let memo: string | null = null;
+
+  for (const instruction of message.compiledInstructions) {
+    const programId = accountKeys[instruction.programIdIndex]?.toBase58();
+
+    if (programId === COMPUTE_BUDGET_PROGRAM_ID) {
+      continue;
+    }
+
+    if (!programId || !MEMO_PROGRAM_IDS.includes(programId)) {
+      throw new SignatureVerificationError(`Unexpected instruction for program ${programId ?? "unknown"}`);
+    }
+
+    if (memo !== null) {
+      throw new SignatureVerificationError("Transaction must contain exactly one memo");
+    }
+
+    memo = Buffer.from(instruction.data).toString("utf8");
+  }
+
+  if (memo !== expectedMemo) {
+    throw new SignatureVerificationError("Memo does not match the issued challenge");
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Solana off-chain message encoding
+ *
+ * Wallets that implement the Solana off-chain message spec do not sign the raw
+ * message bytes. Instead they prepend a fixed signing domain and a header so a
+ * signed message can never be mistaken for a transaction.
+ *
+ * Spec: https://github.com/solana-labs/solana/blob/master/docs/src/proposals/off-chain-message-signing.md
+ */
+
+// "\xffsolana offchain" - the 0xff prefix can never start a valid transaction
+export const OFFCHAIN_SIGNING_DOMAIN = new Uint8Array([
+  0xff,
+  ...new TextEncoder().encode("solana offchain"),
+]);
+
+export const OFFCHAIN_HEADER_VERSION = 0;
+
+// Application domain is a fixed 32 byte field in the v0 header
+export const APPLICATION_DOMAIN_LENGTH = 32;
+
+// Max message length for the restricted ASCII and limited UTF-8 formats,
+// chosen by the spec so the whole message fits in a Ledger APDU buffer
+export const MAX_LIMITED_MESSAGE_LENGTH = 1212;
+
+// u16 length field caps the extended format
+export const MAX_EXTENDED_MESSAGE_LENGTH = 65535;
+
+export enum OffchainMessageFormat {
+  RestrictedAscii = 0,
+  LimitedUtf8 = 1,
+  ExtendedUtf8 = 2,
+}
+
+/**
+ * Picks the narrowest message format that can carry the given bytes,
+ * mirroring what the Solana CLI and the Ledger app do.
+ */
+export function selectOffchainMessageFormat(message: Uint8Array): OffchainMessageFormat {
+  if (message.length > MAX_EXTENDED_MESSAGE_LENGTH) {
+    throw new Error(`Off-chain message too long: ${message.length} bytes`);
+  }
+
+  if (message.length > MAX_LIMITED_MESSAGE_LENGTH) {
+    return OffchainMessageFormat.ExtendedUtf8;
+  }
+
+  // Restricted ASCII only allows printable characters (0x20-0x7e)
+  const isPrintableAscii = message.every((byte) => byte >= 0x20 && byte <= 0x7e);
+  return isPrintableAscii
+    ? OffchainMessageFormat.RestrictedAscii
+    : OffchainMessageFormat.LimitedUtf8;
+}
+
+function writeU16LE(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >> 8) & 0xff]);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export interface OffchainMessageOptions {
+  /** 32 byte application domain (defaults to all zeroes) */
+  applicationDomain?: Uint8Array;
+  /** Public keys that are expected to sign the message */
+  signers: Uint8Array[];
+}
+
+/**
+ * Encodes a message using the full v0 header:
+ * SIGNING_DOMAIN + VERSION + APPLICATION_DOMAIN + FORMAT + SIGNER_COUNT + SIGNERS + LENGTH(u16 LE) + MESSAGE
+ */
+export function encodeOffchainMessage(
+  message: Uint8Array,
+  { applicationDomain, signers }: OffchainMessageOptions
+): Uint8Array {
+  const domain = applicationDomain ?? new Uint8Array(APPLICATION_DOMAIN_LENGTH);
+
+  if (domain.length !== APPLICATION_DOMAIN_LENGTH) {
+    throw new Error(`Application domain must be ${APPLICATION_DOMAIN_LENGTH} bytes`);
+  }
+
+  if (signers.length === 0 || signers.length > 255) {
+    throw new Error("Off-chain message must have between 1 and 255 signers");
+  }
+
+  return concatBytes([
+    OFFCHAIN_SIGNING_DOMAIN,
+    new Uint8Array([OFFCHAIN_HEADER_VERSION]),
+    domain,
+    new Uint8Array([selectOffchainMessageFormat(message)]),
+    new Uint8Array([signers.length]),
+    ...signers,
+    writeU16LE(message.length),
+    message,
+  ]);
+}
+
+/**
+ * Encodes a message using the original v0 header that the Solana CLI
+ * (`solana sign-offchain-message`) and the Ledger Solana app still produce:
+ * SIGNING_DOMAIN + VERSION + FORMAT + LENGTH(u16 LE) + MESSAGE
+ */
+export function encodeLegacyOffchainMessage(message: Uint8Array): Uint8Array {
+  return concatBytes([
+    OFFCHAIN_SIGNING_DOMAIN,
+    new Uint8Array([OFFCHAIN_HEADER_VERSION]),
+    new Uint8Array([selectOffchainMessageFormat(message)]),
+    writeU16LE(message.length),
+    message,
+  ]);
+}
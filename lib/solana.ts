@@ -1,9 +1,24 @@
-import { Connection, PublicKey } from "@solana/web3.js";
+import { AccountInfo, Connection, ParsedAccountData, PublicKey } from "@solana/web3.js";
+import { chunk, mapWithConcurrency, withRetry } from "@/lib/async";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@/lib/constants";
+import { groupAssetsByCollection, searchAssetsByCollection, type DasAsset } from "@/lib/das";
+import { MPL_CORE_PROGRAM_ID, coreAssetFilters, decodeCoreAsset } from "@/lib/mplCore";
+import { verifyCompressedAssets } from "@/lib/compression";
+import { getCollectionManifest } from "@/lib/collectionManifest";
+import { InvalidAddressError, ManifestError, ProviderRequestError, UnknownMintError } from "@/lib/errors";
+import { hasSolanaProvider, withRpcConnection } from "@/lib/solanaProvider";
+import { isSolanaAddress } from "@/lib/signatures/siws";
+import {
+  TOKEN_METADATA_PROGRAM_ID,
+  decodeTokenMetadata,
+  getMetadataAddress,
+  type TokenMetadata,
+} from "@/lib/tokenMetadata";
 
 /**
- * IMPORTANT: This is the Collection NFT address (the parent NFT of the collection).
- * All NFTs in the collection will reference this address in their metadata's collection field.
- * You need to set this in your .env file as WASSIEVERSE_COLLECTION_ADDRESS
+ * IMPORTANT: A collection's address (Collection.address) is the Collection NFT address
+ * (the parent NFT of the collection), its Token-2022 group or its Core collection.
+ * All NFTs in the collection reference this address in their metadata's collection field.
  * 
  * To find the collection address:
  * 1. Go to a marketplace like Magic Eden or Tensor
@@ -11,168 +26,182 @@ import { Connection, PublicKey } from "@solana/web3.js";
  * 3. The collection address is usually visible in the URL or collection info
  * 4. Or use scripts/find-collection.js to find it from a known NFT
  */
-const WASSIEVERSE_COLLECTION_ADDRESS = process.env.WASSIEVERSE_COLLECTION_ADDRESS || "";
+
+// getMultipleAccountsInfo accepts at most 100 accounts per request
+const RPC_BATCH_SIZE = 100;
+
+// Batches fetched in parallel - keeps public RPCs from rate limiting us
+const RPC_BATCH_CONCURRENCY = 4;
+
+/**
+ * How an NFT is represented on-chain:
+ * - "token-metadata": SPL Token mint with a Metaplex Token Metadata account (incl. pNFTs)
+ * - "token-2022": Token-2022 mint (metadata/group extensions or Token Metadata)
+ * - "core": Metaplex Core asset (mintAddress is the asset account address)
+ * - "compressed": Bubblegum cNFT, proven with a Merkle proof (mintAddress is the asset ID)
+ */
+export type AssetStandard = "token-metadata" | "token-2022" | "core" | "compressed";
+
+export interface CollectionNFT {
+  mintAddress: string;
+  tokenId: string;
+  standard: AssetStandard;
+}
+
+/**
+ * A verified collection member before its token ID is looked up in the manifest
+ */
+interface DiscoveredNFT {
+  mintAddress: string;
+  name: string;
+  standard: AssetStandard;
+}
 
 /**
- * Fetches all Wassieverse NFTs owned by a given Solana address using Helius DAS API
+ * Fetches all NFTs of a collection owned by a given Solana address using DAS, or plain RPC without a DAS provider
  * @param walletAddress - The Solana wallet address to check
- * @returns Array of objects containing mint address and token ID
+ * @param collection - The collection (its address and the ID its manifest is stored under)
+ * @returns Array of objects containing mint address, token ID and asset standard
+ * @throws InvalidAddressError if walletAddress isn't a Solana address
+ * @throws UnknownMintError if a collection member is missing from the manifest
+ * @throws ManifestError if the manifest can't be loaded
+ * @throws ProviderRequestError if the DAS provider rejects the request
  */
-export async function getWassieverseNFTs(walletAddress: string): Promise<{ mintAddress: string; tokenId: string }[]> {
+export async function getCollectionNFTs(
+  walletAddress: string,
+  collection: { id: string; address: string }
+): Promise<CollectionNFT[]> {
+  // Checked before any provider call - a garbage address is the caller's error, not the provider's
+  if (!isSolanaAddress(walletAddress)) {
+    throw new InvalidAddressError(walletAddress);
+  }
+
   try {
     console.log(`🔍 Fetching NFTs for wallet: ${walletAddress}`);
-    console.log(`🎯 Looking for collection: ${WASSIEVERSE_COLLECTION_ADDRESS}`);
+    console.log(`🎯 Looking for collection: ${collection.address}`);
 
-    // Try Helius API first, fallback to RPC if it fails
-    try {
-      return await getWassieverseNFTsHelius(walletAddress);
-    } catch (heliusError) {
-      console.warn(`⚠️ Helius API failed: ${heliusError instanceof Error ? heliusError.message : 'Unknown error'}`);
-      console.log(`🔄 Falling back to Solana RPC method...`);
-      return await getWassieverseNFTsRPC(walletAddress);
+    // Try DAS first when a DAS provider is configured, fallback to RPC if it fails
+    let discovered: DiscoveredNFT[];
+    if (hasSolanaProvider("das")) {
+      try {
+        discovered = await getCollectionNFTsDAS(walletAddress, collection.address);
+      } catch (dasError) {
+        // RPC would reject the same request - and can't see compressed NFTs
+        if (dasError instanceof ProviderRequestError) {
+          throw dasError;
+        }
+        console.warn(`⚠️ DAS lookup failed: ${dasError instanceof Error ? dasError.message : 'Unknown error'}`);
+        console.log(`🔄 Falling back to Solana RPC method...`);
+        discovered = await getCollectionNFTsRPC(walletAddress, collection.address);
+      }
+    } else {
+      discovered = await getCollectionNFTsRPC(walletAddress, collection.address);
     }
+
+    return await assignTokenIds(collection.id, discovered);
     
   } catch (error) {
-    console.error("❌ Error fetching Wassieverse NFTs:", error);
+    if (error instanceof UnknownMintError || error instanceof ManifestError || error instanceof ProviderRequestError) {
+      throw error;
+    }
+    console.error("❌ Error fetching collection NFTs:", error);
     throw new Error(`Failed to fetch NFTs: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-async function getWassieverseNFTsHelius(walletAddress: string): Promise<{ mintAddress: string; tokenId: string }[]> {
-  const heliusApiKey = process.env.HELIUS_API_KEY;
-  
-  if (!heliusApiKey) {
-    throw new Error("HELIUS_API_KEY not configured");
-  }
+/**
+ * Looks up every NFT's token ID in the collection manifest. The ID parsed from
+ * the on-chain name is only a cross-check - a mismatch is logged, the manifest wins.
+ * @throws UnknownMintError listing every mint the manifest doesn't know
+ */
+async function assignTokenIds(collectionId: string, discovered: DiscoveredNFT[]): Promise<CollectionNFT[]> {
+  const manifest = await getCollectionManifest(collectionId);
 
-  console.log(`🔑 Using Helius API key: ${heliusApiKey.substring(0, 8)}...`);
+  const unknownMints = discovered
+    .filter(nft => !manifest.has(nft.mintAddress))
+    .map(nft => nft.mintAddress);
+  if (unknownMints.length > 0) {
+    console.error(`❌ ${unknownMints.length} NFT(s) not in the collection manifest: ${unknownMints.join(", ")}`);
+    throw new UnknownMintError(unknownMints);
+  }
 
-  // Use Helius DAS API for faster and more reliable NFT fetching
-  const heliusUrl = `https://api.helius.xyz/v0/addresses/${walletAddress}/nfts?api-key=${heliusApiKey}`;
-  console.log(`🌐 Making request to: ${heliusUrl}`);
-  
-  const response = await fetch(heliusUrl, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+  return discovered.map(({ mintAddress, name, standard }) => {
+    const tokenId = manifest.get(mintAddress)!;
+    const nameTokenId = extractTokenIdFromName(name);
+    if (nameTokenId !== tokenId) {
+      console.warn(`⚠️ Token ID mismatch for ${mintAddress}: manifest ${tokenId}, name "${name}"`);
+    }
+    return { mintAddress, tokenId, standard };
   });
-  
-  console.log(`📡 Response status: ${response.status}`);
-  
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`❌ Helius API error: ${response.status} ${response.statusText}`);
-    console.error(`❌ Error details: ${errorText}`);
-    throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
+}
+
+function getDasAssetStandard(asset: DasAsset): AssetStandard {
+  if (asset.compression?.compressed) {
+    return "compressed";
   }
-  
-  const nfts = await response.json();
-  console.log(`📊 Found ${nfts.length} total NFTs via Helius`);
+  if (asset.interface === "MplCoreAsset") {
+    return "core";
+  }
+  return asset.token_info?.token_program === TOKEN_2022_PROGRAM_ID ? "token-2022" : "token-metadata";
+}
 
-  const wassieverseNFTs: { mintAddress: string; tokenId: string }[] = [];
+async function getCollectionNFTsDAS(walletAddress: string, collectionAddress: string): Promise<DiscoveredNFT[]> {
+  // DAS searchAssets filtered to the collection, iterating every page
+  const assets = await searchAssetsByCollection(walletAddress, collectionAddress);
+  console.log(`📊 Found ${assets.length} collection assets via DAS`);
 
-  for (const nft of nfts) {
-    console.log(`🔍 Checking NFT: ${nft.mint}`);
-    
-    if (nft.collection) {
-      const collectionAddress = nft.collection.address;
-      const isVerified = nft.collection.verified;
-      
-      console.log(`  Collection: ${collectionAddress}, Verified: ${isVerified}`);
-      
-      // Check if this NFT belongs to Wassieverse collection
-      if (
-        isVerified &&
-        collectionAddress === WASSIEVERSE_COLLECTION_ADDRESS
-      ) {
-        // Extract token ID from name
-        const tokenId = extractTokenIdFromName(nft.content?.metadata?.name || nft.mint);
-        console.log(`✅ Found Wassieverse NFT: ${nft.mint} (Token ID: ${tokenId})`);
-        wassieverseNFTs.push({
-          mintAddress: nft.mint,
-          tokenId
-        });
-      } else {
-        console.log(`❌ NFT ${nft.mint} is not from Wassieverse collection`);
-      }
-    } else {
-      console.log(`❌ NFT ${nft.mint} has no collection metadata`);
+  // Re-check the grouping locally - only verified collection membership counts
+  const collectionAssets = groupAssetsByCollection(assets).get(collectionAddress) ?? [];
+
+  // Compressed NFTs only count once their Merkle proof checks out against the on-chain root,
+  // with the leaf rebuilt from metadata that names this collection as verified
+  const verifiedCompressed = await verifyCompressedAssets(
+    collectionAssets.filter(asset => asset.compression?.compressed && !asset.burnt),
+    walletAddress,
+    collectionAddress
+  );
+
+  const collectionNFTs: DiscoveredNFT[] = [];
+
+  for (const asset of collectionAssets) {
+    if (asset.burnt || asset.ownership.owner !== walletAddress) {
+      console.log(`❌ NFT ${asset.id} is burnt or not owned by ${walletAddress}`);
+      continue;
     }
-  }
 
-  console.log(`🎉 Found ${wassieverseNFTs.length} Wassieverse NFTs via Helius`);
-  return wassieverseNFTs;
-}
+    if (asset.compression?.compressed && !verifiedCompressed.has(asset.id)) {
+      continue;
+    }
 
-async function getWassieverseNFTsRPC(walletAddress: string): Promise<{ mintAddress: string; tokenId: string }[]> {
-  const connection = new Connection(
-    process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com"
-  );
+    const name = asset.content?.metadata?.name ?? "";
+    console.log(`✅ Found collection NFT: ${asset.id} (${name})`);
+    collectionNFTs.push({
+      mintAddress: asset.id,
+      name,
+      standard: getDasAssetStandard(asset),
+    });
+  }
 
-  console.log(`🌐 Using Solana RPC: ${process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com"}`);
+  console.log(`🎉 Found ${collectionNFTs.length} collection NFTs via DAS`);
+  return collectionNFTs;
+}
 
+/**
+ * Plain RPC discovery. Compressed NFTs can't be found without an indexer,
+ * so they are only supported through DAS.
+ */
+async function getCollectionNFTsRPC(walletAddress: string, collectionAddress: string): Promise<DiscoveredNFT[]> {
   try {
     const publicKey = new PublicKey(walletAddress);
-    
-    // Get all token accounts for this wallet
-    const tokenAccounts = await connection.getParsedTokenAccountsByOwner(publicKey, {
-      programId: new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"),
-    });
 
-    console.log(`📊 Found ${tokenAccounts.value.length} token accounts`);
-
-    const wassieverseNFTs: { mintAddress: string; tokenId: string }[] = [];
-
-    for (const tokenAccount of tokenAccounts.value) {
-      const tokenInfo = tokenAccount.account.data.parsed.info;
-      
-      // Check if it's an NFT (amount = 1 and decimals = 0)
-      if (tokenInfo.tokenAmount.amount === "1" && tokenInfo.tokenAmount.decimals === 0) {
-        const mintAddress = tokenInfo.mint;
-        console.log(`🔍 Checking NFT: ${mintAddress}`);
-        
-        try {
-          // Get the metadata account for this NFT
-          const [metadataAddress] = PublicKey.findProgramAddressSync(
-            [
-              Buffer.from("metadata"),
-              new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s").toBuffer(),
-              new PublicKey(mintAddress).toBuffer(),
-            ],
-            new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s")
-          );
-
-          const metadataAccount = await connection.getAccountInfo(metadataAddress);
-          
-          if (metadataAccount) {
-            console.log(`  Metadata found for NFT: ${mintAddress}`);
-            
-            // Verify if this NFT is from the Wassieverse collection by checking mint authority
-            console.log(`🔍 Verifying collection for: ${mintAddress}`);
-            
-            const verificationResult = await verifyCollectionMembership(connection, mintAddress);
-            if (verificationResult) {
-              console.log(`✅ Found Wassieverse NFT: ${mintAddress} (Token ID: ${verificationResult.tokenId})`);
-              // Store both mint address and token ID for the database
-              wassieverseNFTs.push({
-                mintAddress,
-                tokenId: verificationResult.tokenId
-              });
-            } else {
-              console.log(`❌ NFT ${mintAddress} is not from Wassieverse collection`);
-            }
-          } else {
-            console.log(`❌ No metadata found for NFT: ${mintAddress}`);
-          }
-        } catch (metadataError) {
-          console.warn(`⚠️ Error checking metadata for ${mintAddress}:`, metadataError instanceof Error ? metadataError.message : 'Unknown error');
-        }
-      }
-    }
+    const [tokenNFTs, coreNFTs] = await Promise.all([
+      getTokenProgramNFTs(publicKey, collectionAddress),
+      getCoreNFTs(walletAddress, collectionAddress),
+    ]);
+    const collectionNFTs = [...tokenNFTs, ...coreNFTs];
 
-    console.log(`🎉 Found ${wassieverseNFTs.length} Wassieverse NFTs via RPC`);
-    return wassieverseNFTs;
+    console.log(`🎉 Found ${collectionNFTs.length} collection NFTs via RPC`);
+    return collectionNFTs;
     
   } catch (error) {
     console.error("❌ RPC method failed:", error);
@@ -181,7 +210,158 @@ async function getWassieverseNFTsRPC(walletAddress: string): Promise<{ mintAddre
 }
 
 /**
- * Extracts token ID from NFT name (e.g., "Wassieverse #564" -> "564")
+ * NFTs held in SPL Token and Token-2022 token accounts
+ */
+async function getTokenProgramNFTs(
+  owner: PublicKey,
+  collectionAddress: string
+): Promise<DiscoveredNFT[]> {
+  // Get all token accounts for this wallet under both token programs
+  const [legacyMints, token2022Mints] = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(async programId => {
+      const label = `getParsedTokenAccountsByOwner (${programId})`;
+      const tokenAccounts = await withRetry(
+        () => withRpcConnection(label, connection =>
+          connection.getParsedTokenAccountsByOwner(owner, {
+            programId: new PublicKey(programId),
+          })
+        ),
+        { label }
+      );
+
+      console.log(`📊 Found ${tokenAccounts.value.length} token accounts for ${programId}`);
+
+      // Keep NFT-like token accounts only (amount = 1 and decimals = 0)
+      return tokenAccounts.value
+        .map(tokenAccount => tokenAccount.account.data.parsed.info)
+        .filter(tokenInfo => tokenInfo.tokenAmount.amount === "1" && tokenInfo.tokenAmount.decimals === 0)
+        .map(tokenInfo => tokenInfo.mint as string);
+    })
+  );
+
+  const collectionNFTs: DiscoveredNFT[] = [];
+
+  // Token-2022: membership comes from the token group member extension on the mint
+  const token2022MintAccounts = await fetchAccountsBatched(
+    token2022Mints.map(mintAddress => new PublicKey(mintAddress)),
+    "getMultipleParsedAccounts",
+    (connection, batch) => connection.getMultipleParsedAccounts(batch).then(result => result.value)
+  );
+
+  const withoutGroupMembership: string[] = [];
+  token2022Mints.forEach((mintAddress, index) => {
+    const verificationResult = verifyToken2022GroupMembership(mintAddress, token2022MintAccounts[index], collectionAddress);
+    if (verificationResult) {
+      console.log(`✅ Found collection NFT: ${mintAddress} (${verificationResult.name}, Token-2022)`);
+      collectionNFTs.push({ mintAddress, name: verificationResult.name, standard: "token-2022" });
+    } else {
+      withoutGroupMembership.push(mintAddress);
+    }
+  });
+
+  // SPL Token mints, plus Token-2022 mints that use Token Metadata instead of extensions.
+  // Derive every metadata PDA up front and fetch them in batches
+  // instead of one getAccountInfo round trip per NFT
+  const metadataMints = [...legacyMints, ...withoutGroupMembership];
+  const metadataAccounts = await fetchAccountsBatched(
+    metadataMints.map(mintAddress => getMetadataAddress(mintAddress)),
+    "getMultipleAccountsInfo",
+    (connection, batch) => connection.getMultipleAccountsInfo(batch)
+  );
+
+  const token2022MintSet = new Set(token2022Mints);
+  metadataMints.forEach((mintAddress, index) => {
+    const verificationResult = verifyCollectionMembership(mintAddress, metadataAccounts[index], collectionAddress);
+    if (verificationResult) {
+      console.log(`✅ Found collection NFT: ${mintAddress} (${verificationResult.name})`);
+      collectionNFTs.push({
+        mintAddress,
+        name: verificationResult.name,
+        standard: token2022MintSet.has(mintAddress) ? "token-2022" : "token-metadata",
+      });
+    }
+  });
+
+  return collectionNFTs;
+}
+
+/**
+ * Metaplex Core assets held by the wallet in the collection.
+ * Core has no token accounts, so assets are found with a filtered getProgramAccounts.
+ */
+async function getCoreNFTs(
+  walletAddress: string,
+  collectionAddress: string
+): Promise<DiscoveredNFT[]> {
+  let accounts: readonly { pubkey: PublicKey; account: AccountInfo<Buffer> }[];
+  try {
+    accounts = await withRetry(
+      () => withRpcConnection("getProgramAccounts (Core)", connection =>
+        connection.getProgramAccounts(MPL_CORE_PROGRAM_ID, {
+          filters: coreAssetFilters(walletAddress, collectionAddress),
+        })
+      ),
+      { label: "getProgramAccounts (Core)" }
+    );
+  } catch (error) {
+    // Some public RPCs disable getProgramAccounts - don't lose the token-based NFTs over it
+    console.warn(`⚠️ Core asset lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return [];
+  }
+
+  console.log(`📊 Found ${accounts.length} Core assets`);
+
+  const collectionNFTs: DiscoveredNFT[] = [];
+
+  for (const { pubkey, account } of accounts) {
+    try {
+      const asset = decodeCoreAsset(account.data);
+
+      // Filters already match these, but never trust the server-side filter alone
+      if (asset.owner !== walletAddress || asset.collection !== collectionAddress) {
+        continue;
+      }
+
+      console.log(`✅ Found collection NFT: ${pubkey.toBase58()} (${asset.name}, Core)`);
+      collectionNFTs.push({ mintAddress: pubkey.toBase58(), name: asset.name, standard: "core" });
+    } catch (decodeError) {
+      console.warn(`⚠️ Error decoding Core asset ${pubkey.toBase58()}:`, decodeError instanceof Error ? decodeError.message : decodeError);
+    }
+  }
+
+  return collectionNFTs;
+}
+
+/**
+ * Fetches accounts in chunks of RPC_BATCH_SIZE with a bounded number of
+ * requests in flight and retry with backoff.
+ * Results are in the same order as `addresses` (null for missing accounts).
+ */
+async function fetchAccountsBatched<T>(
+  addresses: PublicKey[],
+  label: string,
+  fetchBatch: (connection: Connection, batch: PublicKey[]) => Promise<T[]>
+): Promise<T[]> {
+  if (addresses.length === 0) {
+    return [];
+  }
+
+  const batches = chunk(addresses, RPC_BATCH_SIZE);
+  console.log(`📦 Fetching ${addresses.length} accounts with ${label} in ${batches.length} batch(es)`);
+
+  const results = await mapWithConcurrency(batches, RPC_BATCH_CONCURRENCY, (batch, index) => {
+    const batchLabel = `${label} batch ${index + 1}/${batches.length}`;
+    return withRetry(() => withRpcConnection(batchLabel, connection => fetchBatch(connection, batch)), {
+      label: batchLabel,
+    });
+  });
+
+  return results.flat();
+}
+
+/**
+ * Extracts token ID from NFT name (e.g., "Wassieverse #564" -> "564").
+ * Only used to cross-check the manifest.
  * @param name - The NFT name
  * @returns The token ID as a string, or the full name if no ID found
  */
@@ -208,135 +388,65 @@ function extractTokenIdFromName(name: string): string {
 }
 
 /**
- * Verifies if an NFT belongs to the Wassieverse collection by manually parsing metadata.
- * This avoids the Metaplex SDK import issues and works reliably.
+ * Verifies if an NFT belongs to the collection by decoding its
+ * Token Metadata account. Only a collection with verified === true counts -
+ * anyone can set the collection field, only the collection authority can verify it.
  * 
- * @param connection - Solana connection
  * @param mintAddress - The NFT mint address to verify
- * @returns Object with verification status, token ID, and mint address, or false if not verified
+ * @param metadataAccount - The mint's metadata PDA account (null if it doesn't exist)
+ * @param collectionAddress - The verified collection the NFT must belong to
+ * @returns Object with verification status, NFT name, and mint address, or false if not verified
  */
-async function verifyCollectionMembership(connection: Connection, mintAddress: string): Promise<{ verified: boolean; tokenId: string; mintAddress: string } | false> {
+export function verifyCollectionMembership(
+  mintAddress: string,
+  metadataAccount: AccountInfo<Buffer> | null,
+  collectionAddress: string
+): { verified: boolean; name: string; mintAddress: string } | false {
   try {
     console.log(`  🔍 Verifying collection membership for ${mintAddress}...`);
     
-    if (!WASSIEVERSE_COLLECTION_ADDRESS) {
-      console.error(`  ❌ WASSIEVERSE_COLLECTION_ADDRESS not configured!`);
+    if (!metadataAccount || !metadataAccount.owner.equals(TOKEN_METADATA_PROGRAM_ID)) {
+      console.log(`  ❌ Metadata account not found for ${mintAddress}`);
       return false;
     }
-    
-    // Get the metadata PDA (Program Derived Address)
-    const TOKEN_METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
-    const [metadataAddress] = PublicKey.findProgramAddressSync(
-      [
-        Buffer.from("metadata"),
-        TOKEN_METADATA_PROGRAM_ID.toBuffer(),
-        new PublicKey(mintAddress).toBuffer(),
-      ],
-      TOKEN_METADATA_PROGRAM_ID
-    );
 
-    const metadataAccount = await connection.getAccountInfo(metadataAddress);
-    
-    if (!metadataAccount) {
-      console.log(`  ❌ Metadata account not found for ${mintAddress}`);
+    let metadata: TokenMetadata;
+    try {
+      metadata = decodeTokenMetadata(metadataAccount.data);
+    } catch (decodeError) {
+      console.error(`  ❌ Error decoding metadata:`, decodeError instanceof Error ? decodeError.message : decodeError);
       return false;
     }
 
-    try {
-      // Parse metadata manually (avoiding Metaplex SDK issues)
-      const data = metadataAccount.data;
-      
-      // Read basic info
-      let offset = 1; // Skip key byte
-      // Skip updateAuthority (32 bytes)
-      offset += 32;
-      // Skip mint (32 bytes)
-      offset += 32;
-      
-      // Read name (with length prefix)
-      const nameLength = data.readUInt32LE(offset);
-      offset += 4;
-      const name = data.slice(offset, offset + nameLength).toString('utf8').replace(/\0/g, '');
-      offset += nameLength;
-      
-      console.log(`  📋 NFT Name: ${name.trim()}`);
-      
-      // Skip symbol
-      const symbolLength = data.readUInt32LE(offset);
-      offset += 4;
-      offset += symbolLength;
-      
-      // Skip URI
-      const uriLength = data.readUInt32LE(offset);
-      offset += 4;
-      offset += uriLength;
-      
-      // Skip seller fee basis points (2 bytes)
-      offset += 2;
-      
-      // Skip creators (if any) - this is complex, so let's look for collection data
-      // Collection data is typically near the end of the metadata
-      
-      // Look for collection information in the raw data
-      // Collection is usually at a specific offset after creators
-      // Let's search for the collection address pattern
-      
-      console.log(`  🔍 Searching for collection data...`);
-      
-      // Convert collection address to bytes for searching
-      const collectionPubkey = new PublicKey(WASSIEVERSE_COLLECTION_ADDRESS);
-      const collectionBytes = collectionPubkey.toBytes();
-      
-      // Search for the collection address in the metadata
-      let foundCollection = false;
-      let isVerified = false;
-      
-      for (let i = 0; i < data.length - collectionBytes.length; i++) {
-        if (data.slice(i, i + collectionBytes.length).equals(collectionBytes)) {
-          foundCollection = true;
-          console.log(`  📦 Found collection address at offset ${i}`);
-          
-          // Check if this is the collection field (not just a random occurrence)
-          // The collection field typically has a specific structure
-          // For now, let's assume if we find the address, it's the collection
-          
-          // Look for verification flag nearby (this is a simplified approach)
-          // In practice, verification is determined by whether the collection authority signed the metadata
-          // For now, we'll assume it's verified if we find the collection address
-          isVerified = true;
-          break;
-        }
-      }
-      
-      if (foundCollection) {
-        console.log(`  📦 Collection Address: ${WASSIEVERSE_COLLECTION_ADDRESS}`);
-        console.log(`  ✓  Collection Verified: ${isVerified}`);
-        console.log(`  🎯 Expected Collection: ${WASSIEVERSE_COLLECTION_ADDRESS}`);
-        
-        if (isVerified) {
-          console.log(`  ✅ NFT is a verified member of Wassieverse collection!`);
-          
-          // Extract token ID from the name (e.g., "Wassieverse #564" -> "564")
-          const tokenId = extractTokenIdFromName(name.trim());
-          console.log(`  🎯 Token ID: ${tokenId}`);
-          
-          return { verified: true, tokenId, mintAddress };
-        } else {
-          console.log(`  ⚠️  NFT has Wassieverse collection but verification unclear`);
-          const tokenId = extractTokenIdFromName(name.trim());
-          console.log(`  🎯 Token ID: ${tokenId}`);
-          return { verified: true, tokenId, mintAddress }; // Still accept it since we found the collection
-        }
-      } else {
-        console.log(`  ❌ NFT does not belong to Wassieverse collection`);
-        console.log(`  🎯 Expected Collection: ${WASSIEVERSE_COLLECTION_ADDRESS}`);
-        return false;
-      }
-      
-    } catch (parseError) {
-      console.error(`  ❌ Error parsing metadata:`, parseError);
+    console.log(`  📋 NFT Name: ${metadata.name}`);
+
+    if (metadata.mint !== mintAddress) {
+      console.log(`  ❌ Metadata mint ${metadata.mint} does not match ${mintAddress}`);
+      return false;
+    }
+
+    if (!metadata.collection) {
+      console.log(`  ❌ NFT has no collection`);
+      return false;
+    }
+
+    console.log(`  📦 Collection Address: ${metadata.collection.key}`);
+    console.log(`  ✓  Collection Verified: ${metadata.collection.verified}`);
+
+    if (metadata.collection.key !== collectionAddress) {
+      console.log(`  ❌ NFT does not belong to the collection`);
+      console.log(`  🎯 Expected Collection: ${collectionAddress}`);
       return false;
     }
+
+    if (metadata.collection.verified !== true) {
+      console.log(`  ❌ NFT claims the collection but is not verified`);
+      return false;
+    }
+
+    console.log(`  ✅ NFT is a verified member of the collection!`);
+
+    return { verified: true, name: metadata.name, mintAddress };
     
   } catch (error) {
     console.error(`  ❌ Error verifying collection membership for ${mintAddress}:`, error);
@@ -344,4 +454,46 @@ async function verifyCollectionMembership(connection: Connection, mintAddress: s
   }
 }
 
+interface Token2022Extension {
+  extension: string;
+  state?: {
+    mint?: string;
+    group?: string;
+    name?: string;
+  };
+}
 
+/**
+ * Verifies a Token-2022 NFT through its mint extensions: the token group member
+ * extension must point at the collection (only the group's update authority can
+ * add members) and the token metadata extension provides the name.
+ *
+ * @returns NFT name, or false if the mint isn't a member (or lacks metadata extensions)
+ */
+function verifyToken2022GroupMembership(
+  mintAddress: string,
+  mintAccount: AccountInfo<Buffer | ParsedAccountData> | null,
+  collectionAddress: string
+): { name: string } | false {
+  if (
+    !mintAccount ||
+    !mintAccount.owner.equals(new PublicKey(TOKEN_2022_PROGRAM_ID)) ||
+    Buffer.isBuffer(mintAccount.data)
+  ) {
+    return false;
+  }
+
+  const extensions: Token2022Extension[] = mintAccount.data.parsed?.info?.extensions ?? [];
+  const groupMember = extensions.find(ext => ext.extension === "tokenGroupMember")?.state;
+  const metadata = extensions.find(ext => ext.extension === "tokenMetadata")?.state;
+
+  if (
+    groupMember?.group !== collectionAddress ||
+    groupMember.mint !== mintAddress ||
+    !metadata?.name
+  ) {
+    return false;
+  }
+
+  return { name: metadata.name.trim() };
+}
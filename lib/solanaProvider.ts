@@ -0,0 +1,383 @@
+import { Connection, SolanaJSONRPCError } from "@solana/web3.js";
+import { ProviderRequestError, ProviderUnavailableError } from "@/lib/errors";
+
+/**
+ * Solana endpoints with health-scored failover
+ *
+ * Every configured endpoint becomes a SolanaProvider. Each call goes to the
+ * healthiest provider that supports it (lowest latency, fewest recent errors)
+ * and fails over to the next one on error. A provider that fails
+ * CIRCUIT_FAILURE_THRESHOLD times in a row is taken out of rotation for
+ * CIRCUIT_COOLDOWN_MS, after which a single trial call decides whether it
+ * comes back.
+ *
+ * Requests the provider rejects as malformed (ProviderRequestError, or a
+ * JSON-RPC error with a request-error code) are the caller's fault: they
+ * neither count against the provider nor fail over.
+ *
+ * Configuration (in priority order, which breaks ties between equally healthy providers):
+ * - SOLANA_RPC_URL, then SOLANA_RPC_URLS (comma-separated): plain RPC endpoints
+ * - HELIUS_DAS_URL: DAS-only endpoint (e.g. a local mock server)
+ * - HELIUS_API_KEY: Helius mainnet, RPC and DAS (DAS only when HELIUS_DAS_URL isn't set)
+ * Without any RPC endpoint the public mainnet RPC is used.
+ */
+
+/** What a provider can serve - standard JSON-RPC or the Digital Asset Standard API */
+export type ProviderCapability = "rpc" | "das";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface SolanaProvider {
+  /** Display name, safe to expose (never contains the URL or API key) */
+  readonly name: string;
+  readonly capabilities: readonly ProviderCapability[];
+  readonly url: string;
+  readonly connection: Connection;
+}
+
+export interface SolanaProviderHealth {
+  name: string;
+  capabilities: readonly ProviderCapability[];
+  circuit: CircuitState;
+  /** Moving average of successful call latency (null before the first success) */
+  latencyMs: number | null;
+  /** Share of failed calls among the last HEALTH_WINDOW_SIZE within HEALTH_WINDOW_MS */
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  /** When an open circuit lets a trial call through */
+  retryAt: string | null;
+}
+
+const PUBLIC_RPC_URL = "https://api.mainnet-beta.solana.com";
+
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30 * 1000;
+
+// Calls that take longer count as failures (the call itself isn't cancelled)
+const PROVIDER_TIMEOUT_MS = 30 * 1000;
+
+// Error rate covers recent calls only, so a past outage doesn't starve a provider forever
+const HEALTH_WINDOW_SIZE = 50;
+const HEALTH_WINDOW_MS = 5 * 60 * 1000;
+const LATENCY_EWMA_ALPHA = 0.2;
+
+// Latency-equivalent cost of errors: a provider failing 10% of calls scores like one 500ms slower
+const ERROR_RATE_PENALTY_MS = 5000;
+
+// 4xx statuses that still mean the provider can't serve us: bad API key, timeout, rate limited
+const PROVIDER_FAULT_STATUSES = new Set([401, 403, 408, 429]);
+
+// JSON-RPC codes for provider-side problems: internal error, method not supported,
+// rate limited, and the -32000..-32099 server range (node unhealthy, behind, ...)
+const PROVIDER_FAULT_CODES = new Set([-32603, -32601, -32429, 429]);
+
+interface ProviderEntry {
+  provider: SolanaProvider;
+  priority: number;
+  circuit: CircuitState;
+  openedAt: number;
+  trialInFlight: boolean;
+  latencyMs: number | null;
+  outcomes: { ok: boolean; at: number }[];
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+let entries: ProviderEntry[] | null = null;
+
+function parseUrlList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+function hostName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "rpc";
+  }
+}
+
+function buildProviders(): ProviderEntry[] {
+  const configs: { name: string; url: string; capabilities: ProviderCapability[] }[] = [];
+
+  const rpcUrls = [process.env.SOLANA_RPC_URL, ...parseUrlList(process.env.SOLANA_RPC_URLS)]
+    .filter((url): url is string => Boolean(url));
+  for (const url of Array.from(new Set(rpcUrls))) {
+    configs.push({ name: hostName(url), url, capabilities: ["rpc"] });
+  }
+
+  const dasUrl = process.env.HELIUS_DAS_URL;
+  if (dasUrl) {
+    configs.push({ name: "das", url: dasUrl, capabilities: ["das"] });
+  }
+
+  const heliusApiKey = process.env.HELIUS_API_KEY;
+  if (heliusApiKey) {
+    configs.push({
+      name: "helius",
+      url: `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`,
+      capabilities: dasUrl ? ["rpc"] : ["rpc", "das"],
+    });
+  }
+
+  if (!configs.some(config => config.capabilities.includes("rpc"))) {
+    configs.push({ name: hostName(PUBLIC_RPC_URL), url: PUBLIC_RPC_URL, capabilities: ["rpc"] });
+  }
+
+  // Names end up in logs and /api/health - keep them unique
+  const seen = new Map<string, number>();
+  return configs.map((config, priority) => {
+    const count = (seen.get(config.name) ?? 0) + 1;
+    seen.set(config.name, count);
+
+    return {
+      provider: {
+        name: count > 1 ? `${config.name}-${count}` : config.name,
+        capabilities: config.capabilities,
+        url: config.url,
+        connection: new Connection(config.url),
+      },
+      priority,
+      circuit: "closed",
+      openedAt: 0,
+      trialInFlight: false,
+      latencyMs: null,
+      outcomes: [],
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastErrorAt: null,
+    };
+  });
+}
+
+function getEntries(): ProviderEntry[] {
+  if (!entries) {
+    entries = buildProviders();
+    console.log(`🌐 Solana providers: ${entries.map(entry => `${entry.provider.name} (${entry.provider.capabilities.join(", ")})`).join(", ")}`);
+  }
+  return entries;
+}
+
+function getErrorRate(entry: ProviderEntry, now: number): number {
+  const recent = entry.outcomes.filter(outcome => now - outcome.at < HEALTH_WINDOW_MS);
+  if (recent.length === 0) {
+    return 0;
+  }
+  return recent.filter(outcome => !outcome.ok).length / recent.length;
+}
+
+function getScore(entry: ProviderEntry, now: number): number {
+  return (entry.latencyMs ?? 0) + getErrorRate(entry, now) * ERROR_RATE_PENALTY_MS;
+}
+
+/**
+ * Moves an open circuit to half-open once its cooldown has passed
+ */
+function refreshCircuit(entry: ProviderEntry, now: number) {
+  if (entry.circuit === "open" && now - entry.openedAt >= CIRCUIT_COOLDOWN_MS) {
+    entry.circuit = "half-open";
+    entry.trialInFlight = false;
+  }
+}
+
+function isSelectable(entry: ProviderEntry): boolean {
+  return entry.circuit === "closed" || (entry.circuit === "half-open" && !entry.trialInFlight);
+}
+
+/**
+ * Providers supporting `capability` that may take a call, best first.
+ * Half-open providers come first so their trial call happens (and can fail over).
+ */
+function rankProviders(capability: ProviderCapability): ProviderEntry[] {
+  const now = Date.now();
+
+  return getEntries()
+    .filter(entry => entry.provider.capabilities.includes(capability))
+    .filter(entry => {
+      refreshCircuit(entry, now);
+      return isSelectable(entry);
+    })
+    .sort((a, b) =>
+      Number(b.circuit === "half-open") - Number(a.circuit === "half-open") ||
+      getScore(a, now) - getScore(b, now) ||
+      a.priority - b.priority
+    );
+}
+
+function recordOutcome(entry: ProviderEntry, ok: boolean) {
+  entry.requests++;
+  entry.outcomes.push({ ok, at: Date.now() });
+  if (entry.outcomes.length > HEALTH_WINDOW_SIZE) {
+    entry.outcomes.shift();
+  }
+}
+
+function recordSuccess(entry: ProviderEntry, latencyMs: number) {
+  recordOutcome(entry, true);
+  entry.consecutiveFailures = 0;
+  entry.latencyMs = entry.latencyMs === null
+    ? latencyMs
+    : entry.latencyMs + LATENCY_EWMA_ALPHA * (latencyMs - entry.latencyMs);
+
+  if (entry.circuit === "half-open") {
+    console.log(`✅ Solana provider ${entry.provider.name} recovered`);
+    entry.circuit = "closed";
+    entry.trialInFlight = false;
+  }
+}
+
+function recordFailure(entry: ProviderEntry, error: unknown) {
+  recordOutcome(entry, false);
+  entry.failures++;
+  entry.consecutiveFailures++;
+  // Provider URLs may carry API keys - never let them into the health report
+  entry.lastError = (error instanceof Error ? error.message : String(error))
+    .split(entry.provider.url)
+    .join(entry.provider.name);
+  entry.lastErrorAt = Date.now();
+
+  if (entry.circuit === "half-open" || entry.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    if (entry.circuit !== "open") {
+      console.warn(`🔌 Circuit opened for Solana provider ${entry.provider.name} (${entry.consecutiveFailures} consecutive failures)`);
+    }
+    entry.circuit = "open";
+    entry.openedAt = Date.now();
+    entry.trialInFlight = false;
+  }
+}
+
+/**
+ * Whether an HTTP error status means the request was rejected, not that the provider failed
+ */
+export function isRequestErrorStatus(status: number): boolean {
+  return status >= 400 && status < 500 && !PROVIDER_FAULT_STATUSES.has(status);
+}
+
+/**
+ * Whether a JSON-RPC error code means the request was rejected (e.g. -32602
+ * invalid params), not that the provider failed
+ */
+export function isRequestErrorCode(code: unknown): boolean {
+  return typeof code === "number" && !PROVIDER_FAULT_CODES.has(code) && !(code <= -32000 && code >= -32099);
+}
+
+function isRequestError(error: unknown): boolean {
+  return error instanceof ProviderRequestError ||
+    (error instanceof SolanaJSONRPCError && isRequestErrorCode(error.code));
+}
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${PROVIDER_TIMEOUT_MS}ms`)), PROVIDER_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Runs `fn` against the healthiest provider supporting `capability`,
+ * failing over to the next one on error
+ * @throws ProviderUnavailableError if no provider supports it or all circuits are open
+ * @throws the provider's error as-is when it rejects the request itself
+ * @throws the last provider's error once every available provider has failed
+ */
+export async function withSolanaProvider<T>(
+  capability: ProviderCapability,
+  label: string,
+  fn: (provider: SolanaProvider) => Promise<T>
+): Promise<T> {
+  const ranked = rankProviders(capability);
+  if (ranked.length === 0) {
+    throw new ProviderUnavailableError(
+      hasSolanaProvider(capability)
+        ? `All Solana ${capability.toUpperCase()} providers are unavailable`
+        : `No Solana ${capability.toUpperCase()} provider configured`
+    );
+  }
+
+  let lastError: unknown;
+
+  for (const [index, entry] of ranked.entries()) {
+    // Another call may have opened the circuit or taken the trial meanwhile
+    refreshCircuit(entry, Date.now());
+    if (!isSelectable(entry)) {
+      continue;
+    }
+    if (entry.circuit === "half-open") {
+      entry.trialInFlight = true;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await withTimeout(fn(entry.provider), `${label} on ${entry.provider.name}`);
+      recordSuccess(entry, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      // The provider answered - another one would reject the request just the same
+      if (isRequestError(error)) {
+        recordSuccess(entry, Date.now() - startedAt);
+        throw error;
+      }
+
+      recordFailure(entry, error);
+      lastError = error;
+
+      const next = ranked[index + 1];
+      if (next) {
+        console.warn(`⚠️ ${label} failed on ${entry.provider.name}, failing over to ${next.provider.name}`);
+      }
+    }
+  }
+
+  throw lastError ?? new ProviderUnavailableError(`All Solana ${capability.toUpperCase()} providers are unavailable`);
+}
+
+/**
+ * Runs `fn` with the Connection of the healthiest RPC provider
+ */
+export function withRpcConnection<T>(label: string, fn: (connection: Connection) => Promise<T>): Promise<T> {
+  return withSolanaProvider("rpc", label, provider => fn(provider.connection));
+}
+
+/**
+ * Whether any provider is configured for `capability`, regardless of its health
+ */
+export function hasSolanaProvider(capability: ProviderCapability): boolean {
+  return getEntries().some(entry => entry.provider.capabilities.includes(capability));
+}
+
+/**
+ * Provider state for /api/health
+ */
+export function getSolanaProviderHealth(): SolanaProviderHealth[] {
+  const now = Date.now();
+
+  return getEntries().map(entry => {
+    refreshCircuit(entry, now);
+    return {
+      name: entry.provider.name,
+      capabilities: entry.provider.capabilities,
+      circuit: entry.circuit,
+      latencyMs: entry.latencyMs === null ? null : Math.round(entry.latencyMs),
+      errorRate: Math.round(getErrorRate(entry, now) * 1000) / 1000,
+      requests: entry.requests,
+      failures: entry.failures,
+      consecutiveFailures: entry.consecutiveFailures,
+      lastError: entry.lastError,
+      lastErrorAt: entry.lastErrorAt ? new Date(entry.lastErrorAt).toISOString() : null,
+      retryAt: entry.circuit === "open" ? new Date(entry.openedAt + CIRCUIT_COOLDOWN_MS).toISOString() : null,
+    };
+  });
+}
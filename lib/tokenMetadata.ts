@@ -0,0 +1,125 @@
+import { PublicKey } from "@solana/web3.js";
+import { MetadataDecodeError } from "@/lib/errors";
+import { BorshReader } from "@/lib/borsh";
+
+/**
+ * Borsh decoder for Metaplex Token Metadata accounts
+ *
+ * Only the fields needed to verify collection membership are decoded; the
+ * trailing optional fields (uses, collection details, programmable config)
+ * are ignored.
+ */
+
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+
+// Key discriminator of a Metadata account (Key::MetadataV1)
+const METADATA_V1_KEY = 4;
+
+export enum TokenStandard {
+  NonFungible = 0,
+  FungibleAsset = 1,
+  Fungible = 2,
+  NonFungibleEdition = 3,
+  ProgrammableNonFungible = 4,
+  ProgrammableNonFungibleEdition = 5,
+}
+
+export interface MetadataCreator {
+  address: string;
+  verified: boolean;
+  share: number;
+}
+
+export interface MetadataCollection {
+  key: string;
+  verified: boolean;
+}
+
+export interface TokenMetadata {
+  updateAuthority: string;
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: MetadataCreator[] | null;
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+  editionNonce: number | null;
+  tokenStandard: TokenStandard | null;
+  collection: MetadataCollection | null;
+}
+
+/**
+ * Decodes a Token Metadata account
+ * @throws MetadataDecodeError if the data is not a valid Metadata account
+ */
+export function decodeTokenMetadata(data: Uint8Array): TokenMetadata {
+  const reader = new BorshReader(data);
+
+  const key = reader.u8();
+  if (key !== METADATA_V1_KEY) {
+    throw new MetadataDecodeError(`Not a metadata account (key ${key})`);
+  }
+
+  const updateAuthority = reader.pubkey();
+  const mint = reader.pubkey();
+  const name = reader.string();
+  const symbol = reader.string();
+  const uri = reader.string();
+  const sellerFeeBasisPoints = reader.u16();
+  const creators = reader.option(() =>
+    reader.vec(() => ({
+      address: reader.pubkey(),
+      verified: reader.bool(),
+      share: reader.u8(),
+    }))
+  );
+  const primarySaleHappened = reader.bool();
+  const isMutable = reader.bool();
+  const editionNonce = reader.option(() => reader.u8());
+
+  const tokenStandard = reader.option(() => {
+    const value = reader.u8();
+    if (!(value in TokenStandard)) {
+      throw new MetadataDecodeError(`Unknown token standard ${value}`);
+    }
+    return value as TokenStandard;
+  });
+
+  // Collection is serialized as { verified: bool, key: Pubkey }
+  const collection = reader.option(() => {
+    const verified = reader.bool();
+    return { verified, key: reader.pubkey() };
+  });
+
+  return {
+    updateAuthority,
+    mint,
+    name: name.trim(),
+    symbol: symbol.trim(),
+    uri: uri.trim(),
+    sellerFeeBasisPoints,
+    creators,
+    primarySaleHappened,
+    isMutable,
+    editionNonce,
+    tokenStandard,
+    collection,
+  };
+}
+
+/**
+ * Metadata PDA for a mint
+ */
+export function getMetadataAddress(mintAddress: string): PublicKey {
+  const [metadataAddress] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      new PublicKey(mintAddress).toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  return metadataAddress;
+}
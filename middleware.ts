@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CLIENT_IP_HEADER,
+  REQUEST_ID_HEADER,
+  parseTrustedProxies,
+  resolveClientIp,
+  resolveRequestId,
+} from "@/lib/requestContext";
+
+/**
+ * Runs before every page and API route:
+ * - assigns the request ID (x-request-id, echoed on the response)
+ * - resolves the client IP through TRUSTED_PROXIES and forwards it as x-client-ip
+ * - sets the security headers (CSP, HSTS, frame-ancestors)
+ * Routes read the forwarded values through lib/requestContext.
+ */
+
+const isProduction = process.env.NODE_ENV === "production";
+
+const trustedProxies = parseTrustedProxies(process.env.TRUSTED_PROXIES);
+
+// Wallet adapters and WalletConnect talk to RPCs and relays chosen at runtime, and
+// NFT images come from arbitrary hosts - hence https:/wss: for connect-src and img-src
+const CONTENT_SECURITY_POLICY =
+  process.env.CONTENT_SECURITY_POLICY ||
+  [
+    "default-src 'self'",
+    `script-src 'self' 'unsafe-inline'${isProduction ? "" : " 'unsafe-eval'"}`,
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' data: blob: https:",
+    "font-src 'self' data: https:",
+    `connect-src 'self' https: wss:${isProduction ? "" : " http: ws:"}`,
+    "frame-src 'self' https://verify.walletconnect.com https://verify.walletconnect.org",
+    "frame-ancestors 'none'",
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'self'",
+    ...(isProduction ? ["upgrade-insecure-requests"] : []),
+  ].join("; ");
+
+const SECURITY_HEADERS: Record<string, string> = {
+  "Content-Security-Policy": CONTENT_SECURITY_POLICY,
+  // Legacy counterpart of frame-ancestors for older browsers
+  "X-Frame-Options": "DENY",
+  "X-Content-Type-Options": "nosniff",
+  "Referrer-Policy": "strict-origin-when-cross-origin",
+  // Only over HTTPS - a local http://localhost would otherwise be pinned to HTTPS
+  ...(isProduction ? { "Strict-Transport-Security": "max-age=63072000; includeSubDomains" } : {}),
+};
+
+export function middleware(req: NextRequest) {
+  const requestId = resolveRequestId(req.headers.get(REQUEST_ID_HEADER));
+  const clientIp = resolveClientIp(req.headers.get("x-forwarded-for"), trustedProxies);
+
+  // Overwrite whatever the client sent under these names
+  const headers = new Headers(req.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  if (clientIp) {
+    headers.set(CLIENT_IP_HEADER, clientIp);
+  } else {
+    headers.delete(CLIENT_IP_HEADER);
+  }
+
+  const response = NextResponse.next({ request: { headers } });
+
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+    response.headers.set(name, value);
+  }
+
+  return response;
+}
+
+export const config = {
+  // Everything except build assets
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
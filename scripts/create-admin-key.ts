@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client';
+import { ADMIN_ROLES, generateAdminApiKey, isAdminRole } from '@/lib/adminRoles';
+
+/**
+ * Creates or revokes an admin API key for /api/admin/*.
+ *
+ *   npx tsx scripts/create-admin-key.ts --name="Airdrop bot" --role=operator
+ *   npx tsx scripts/create-admin-key.ts --revoke=<key id>
+ *
+ * The key is printed once and only its hash is stored - copy it right away.
+ * Use this to bootstrap the first owner key; owners can then manage keys
+ * through /api/admin/keys.
+ */
+
+const prisma = new PrismaClient();
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = arg.match(/^--([a-z-]+)=(.*)$/);
+    if (!match) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    args.set(match[1], match[2]);
+  }
+  return args;
+}
+
+async function createAdminKey() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    const revokeId = args.get('revoke');
+    if (revokeId !== undefined) {
+      const { count } = await prisma.adminApiKey.updateMany({
+        where: { id: revokeId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new Error(`No active admin API key with id ${revokeId}`);
+      }
+      console.log(`✅ Revoked admin API key ${revokeId}`);
+      return;
+    }
+
+    const name = args.get('name')?.trim();
+    if (!name) {
+      throw new Error('--name is required');
+    }
+
+    const role = args.get('role');
+    if (!isAdminRole(role)) {
+      throw new Error(`--role must be one of: ${ADMIN_ROLES.join(', ')}`);
+    }
+
+    const { key, keyHash, keyPrefix } = generateAdminApiKey();
+    const apiKey = await prisma.adminApiKey.create({
+      data: { name, role, keyHash, keyPrefix, createdBy: 'script' },
+    });
+
+    console.log(`✅ Created admin API key ${apiKey.id} (${apiKey.name}, ${apiKey.role})`);
+    console.log(`\n🔑 ${key}`);
+    console.log('\n⚠️ This key will not be shown again. Send it as "Authorization: Bearer <key>".');
+
+  } catch (error) {
+    console.error('❌ Error managing admin API key:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+createAdminKey();
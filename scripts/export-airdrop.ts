@@ -10,13 +10,24 @@ interface AirdropRow {
 }
 
 async function exportAirdrop() {
+  // npx tsx scripts/export-airdrop.ts [--collection=<slug>] (defaults to DEFAULT_COLLECTION_SLUG)
+  const slug = process.argv.slice(2).find(arg => arg.startsWith('--collection='))?.split('=')[1]
+    || process.env.DEFAULT_COLLECTION_SLUG
+    || 'wassieverse';
+
   try {
     console.log('Connecting to database...');
+
+    const collection = await prisma.collection.findUnique({ where: { slug: slug.toLowerCase() } });
+    if (!collection) {
+      throw new Error(`Unknown collection "${slug}"`);
+    }
     
     // Query the EVMAirdrop table using raw SQL
     const rows = await prisma.$queryRaw<AirdropRow[]>`
       SELECT "EVM", "Amount" 
       FROM "EVMAirdrop"
+      WHERE "collectionId" = ${collection.id}
       ORDER BY "EVM"
     `;
 
@@ -30,7 +41,7 @@ async function exportAirdrop() {
     });
 
     // Write to file
-    const outputPath = path.join(process.cwd(), 'airdrop.txt');
+    const outputPath = path.join(process.cwd(), `airdrop-${collection.slug}.txt`);
     fs.writeFileSync(outputPath, csvLines.join('\n'), 'utf-8');
 
     console.log(`✅ Successfully exported ${rows.length} rows to: ${outputPath}`);
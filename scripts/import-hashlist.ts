@@ -0,0 +1,200 @@
+import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { chunk, withRetry } from '@/lib/async';
+import { DAS_PAGE_LIMIT, getAssetsById, type DasAsset } from '@/lib/das';
+import { parseHashlist, validateHashlist, type HashlistEntry } from '@/lib/hashlist';
+import { isTokenIdInRange } from '@/lib/collectionInfo';
+import { hasSolanaProvider } from '@/lib/solanaProvider';
+
+/**
+ * Imports a collection's hashlist into the CollectionMint allowlist that
+ * verify-solana, check-nfts, link-evm and unlink resolve token IDs from.
+ *
+ *   npx tsx scripts/import-hashlist.ts hashlist.json              # add / update mints
+ *   npx tsx scripts/import-hashlist.ts hashlist.csv --replace     # also remove mints missing from the file
+ *   npx tsx scripts/import-hashlist.ts hashlist.json --dry-run    # validate and print, don't write
+ *   npx tsx scripts/import-hashlist.ts hashlist.json --collection=<slug>
+ *
+ * Without --collection the DEFAULT_COLLECTION_SLUG collection (default
+ * "wassieverse") is used. Create collections with scripts/upsert-collection.ts.
+ *
+ * Entries without a name, image or token ID are completed from DAS
+ * (HELIUS_API_KEY or HELIUS_DAS_URL). A missing token ID is taken from a
+ * trailing "#<number>" in the on-chain name - review the summary before
+ * importing a plain mint list.
+ */
+
+const prisma = new PrismaClient();
+
+// Strict on purpose: anything but "<name> #564" must be given an explicit token ID
+const NAME_TOKEN_ID_PATTERN = /#(\d+)\s*$/;
+
+async function completeFromDas(entries: HashlistEntry[]): Promise<HashlistEntry[]> {
+  const incomplete = entries.filter(entry => !entry.tokenId || !entry.name || !entry.imageUri);
+  if (incomplete.length === 0) {
+    return entries;
+  }
+
+  if (!hasSolanaProvider('das')) {
+    if (incomplete.some(entry => !entry.tokenId)) {
+      throw new Error('Some entries have no token ID - set HELIUS_API_KEY (or HELIUS_DAS_URL) to read them from on-chain names');
+    }
+    console.warn(`⚠️ ${incomplete.length} entries have no name or image and DAS is not configured - importing them without`);
+    return entries;
+  }
+
+  console.log(`🔍 Fetching metadata for ${incomplete.length} mints from DAS...`);
+  const assets = new Map<string, DasAsset>();
+  for (const batch of chunk(incomplete.map(entry => entry.mint), DAS_PAGE_LIMIT)) {
+    const batchAssets = await withRetry(() => getAssetsById(batch), { label: 'getAssetBatch' });
+    for (const asset of batchAssets) {
+      assets.set(asset.id, asset);
+    }
+  }
+
+  return entries.map(entry => {
+    const asset = assets.get(entry.mint);
+    if (!asset) {
+      return entry;
+    }
+
+    const name = entry.name ?? asset.content?.metadata?.name?.trim();
+    return {
+      ...entry,
+      name,
+      imageUri: entry.imageUri ?? asset.content?.links?.image,
+      tokenId: entry.tokenId ?? name?.match(NAME_TOKEN_ID_PATTERN)?.[1],
+    };
+  });
+}
+
+async function importHashlist() {
+  const args = process.argv.slice(2);
+  const filePath = args.find(arg => !arg.startsWith('--'));
+  const replace = args.includes('--replace');
+  const dryRun = args.includes('--dry-run');
+  const slug = args.find(arg => arg.startsWith('--collection='))?.split('=')[1]
+    || process.env.DEFAULT_COLLECTION_SLUG
+    || 'wassieverse';
+
+  if (!filePath) {
+    console.error('Usage: npx tsx scripts/import-hashlist.ts <hashlist.json|hashlist.csv> [--collection=<slug>] [--replace] [--dry-run]');
+    process.exit(1);
+  }
+
+  try {
+    const collection = await prisma.collection.findUnique({ where: { slug: slug.toLowerCase() } });
+    if (!collection) {
+      throw new Error(`Unknown collection "${slug}" - create it with scripts/upsert-collection.ts`);
+    }
+    console.log(`🎯 Importing into ${collection.name} (${collection.slug})`);
+
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+    const content = fs.readFileSync(resolvedPath, 'utf-8');
+    const parsed = parseHashlist(content, resolvedPath.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+    console.log(`📄 Read ${parsed.length} entries from ${resolvedPath}`);
+
+    const entries = validateHashlist(await completeFromDas(parsed));
+
+    const outOfRange = entries.filter(entry => !isTokenIdInRange(collection, entry.tokenId));
+    if (outOfRange.length > 0) {
+      throw new Error(
+        `${outOfRange.length} token ID(s) are outside ${collection.minTokenId}-${collection.maxTokenId}, e.g. #${outOfRange[0].tokenId} (${outOfRange[0].mint})`
+      );
+    }
+
+    // Mints are unique across collections - never move one out of another collection
+    const claimedElsewhere = await prisma.collectionMint.findMany({
+      where: {
+        collectionId: { not: collection.id },
+        mintAddress: { in: entries.map(entry => entry.mint) },
+      },
+      include: { collection: { select: { slug: true } } },
+    });
+    if (claimedElsewhere.length > 0) {
+      console.error(`❌ ${claimedElsewhere.length} mint(s) already belong to another collection:`);
+      claimedElsewhere.slice(0, 20).forEach(row => console.error(`   ${row.mintAddress}: ${row.collection.slug} #${row.tokenId}`));
+      console.error('\n💡 Check that the hashlist is for this collection, or remove the mints from the other one first.');
+      process.exitCode = 1;
+      return;
+    }
+
+    // Token IDs that currently belong to a different mint would be silently reassigned
+    const conflicts = await prisma.collectionMint.findMany({
+      where: {
+        collectionId: collection.id,
+        tokenId: { in: entries.map(entry => entry.tokenId) },
+        mintAddress: { notIn: entries.map(entry => entry.mint) },
+      },
+    });
+    if (conflicts.length > 0 && !replace) {
+      console.error(`❌ ${conflicts.length} token ID(s) already belong to other mints:`);
+      conflicts.slice(0, 20).forEach(row => console.error(`   #${row.tokenId}: ${row.mintAddress}`));
+      console.error('\n💡 Re-run with --replace if the file is the complete, corrected hashlist.');
+      process.exitCode = 1;
+      return;
+    }
+
+    const existingCount = await prisma.collectionMint.count({ where: { collectionId: collection.id } });
+    const mintsToRemove = replace
+      ? await prisma.collectionMint.count({
+          where: { collectionId: collection.id, mintAddress: { notIn: entries.map(entry => entry.mint) } },
+        })
+      : 0;
+
+    console.log('\n📊 Import summary:');
+    console.log(`   Entries in file:     ${entries.length}`);
+    console.log(`   Mints in database:   ${existingCount}`);
+    console.log(`   Mints to remove:     ${mintsToRemove}`);
+    console.log(`   Without name/image:  ${entries.filter(entry => !entry.name || !entry.imageUri).length}`);
+
+    if (replace) {
+      const orphanedLinks = await prisma.linkedNFT.count({
+        where: { collectionId: collection.id, mintAddress: { notIn: entries.map(entry => entry.mint) } },
+      });
+      if (orphanedLinks > 0) {
+        console.warn(`⚠️ ${orphanedLinks} linked NFT(s) use mints that are not in this hashlist`);
+      }
+    }
+
+    if (dryRun) {
+      entries.slice(0, 10).forEach(entry => console.log(`   ${entry.mint} -> #${entry.tokenId} (${entry.name ?? 'no name'})`));
+      console.log('\n🧪 Dry run - nothing written');
+      return;
+    }
+
+    await prisma.$transaction(async tx => {
+      if (replace) {
+        await tx.collectionMint.deleteMany({ where: { collectionId: collection.id } });
+      }
+      // Re-imported mints are replaced with the file's token ID, name and image
+      await tx.collectionMint.deleteMany({
+        where: { collectionId: collection.id, mintAddress: { in: entries.map(entry => entry.mint) } },
+      });
+
+      for (const batch of chunk(entries, 1000)) {
+        await tx.collectionMint.createMany({
+          data: batch.map(entry => ({
+            collectionId: collection.id,
+            mintAddress: entry.mint,
+            tokenId: entry.tokenId,
+            name: entry.name ?? null,
+            imageUri: entry.imageUri ?? null,
+          })),
+        });
+      }
+    }, { timeout: 60_000 });
+
+    console.log(`\n✅ Imported ${entries.length} mints into ${collection.name}'s CollectionMint allowlist`);
+
+  } catch (error) {
+    console.error('❌ Error importing hashlist:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+importHashlist();
@@ -0,0 +1,188 @@
+import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Reconciles the legacy WalletLink.tokenIds JSON column with LinkedNFT rows
+ * and, with --apply, drops the column.
+ *
+ * link-evm used to overwrite tokenIds with only the latest selection, so the
+ * column drifted from the real LinkedNFT rows. LinkedNFT is the source of
+ * truth - this reports every difference and archives the legacy values in the
+ * report file before the column is removed.
+ *
+ * The column is no longer in the schema. scripts/setup-db-on-start.sh runs
+ * this with --apply before `prisma db push`, so the column is reconciled and
+ * dropped in the same release that stops reading it - if tokens would be lost
+ * the startup stops before the push. Run it by hand to review or force:
+ *
+ *   npx tsx scripts/reconcile-token-ids.ts            # report only
+ *   npx tsx scripts/reconcile-token-ids.ts --apply    # report, then drop the column
+ *   npx tsx scripts/reconcile-token-ids.ts --apply --force   # drop even with orphaned tokens
+ */
+
+const prisma = new PrismaClient();
+
+interface LegacyWalletLinkRow {
+  id: string;
+  solanaAddress: string;
+  evmAddress: string;
+  tokenIds: string | null;
+}
+
+interface WalletLinkMismatch {
+  walletLinkId: string;
+  solanaAddress: string;
+  evmAddress: string;
+  legacyTokenIds: string[] | null;
+  /** Default collection tokens linked through this wallet link */
+  linkedTokenIds: string[];
+  /** In LinkedNFT but not in the JSON (expected drift from overwritten selections) */
+  missingFromJson: string[];
+  /** In the JSON, now linked through a different wallet link (relinked / re-linked after sale) */
+  linkedElsewhere: string[];
+  /** In the JSON but not linked anywhere - no LinkedNFT row to back it */
+  orphaned: string[];
+  invalidJson: boolean;
+}
+
+function parseLegacyTokenIds(value: string | null): string[] | null {
+  if (value === null) return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function legacyColumnExists(): Promise<boolean> {
+  const rows = await prisma.$queryRaw<{ exists: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'WalletLink' AND column_name = 'tokenIds'
+    ) AS "exists"
+  `;
+  return rows[0]?.exists === true;
+}
+
+async function reconcileTokenIds() {
+  const apply = process.argv.includes('--apply');
+  const force = process.argv.includes('--force');
+
+  try {
+    console.log('Connecting to database...');
+
+    if (!(await legacyColumnExists())) {
+      console.log('✅ WalletLink.tokenIds has already been dropped - nothing to do');
+      return;
+    }
+
+    // Raw SQL: the column is no longer part of the Prisma schema
+    const walletLinks = await prisma.$queryRaw<LegacyWalletLinkRow[]>`
+      SELECT "id", "solanaAddress", "evmAddress", "tokenIds"
+      FROM "WalletLink"
+      ORDER BY "verifiedAt"
+    `;
+
+    const linkedNFTs = await prisma.linkedNFT.findMany({
+      select: { collectionId: true, tokenId: true, walletLinkId: true },
+    });
+
+    // The JSON predates multiple collections - its token IDs are all in the default collection
+    const defaultCollectionSlug = process.env.DEFAULT_COLLECTION_SLUG || 'wassieverse';
+    const defaultCollection = await prisma.collection.findUnique({ where: { slug: defaultCollectionSlug } });
+    const tokenKey = (collectionId: string | undefined, tokenId: string) => `${collectionId ?? ''}:${tokenId}`;
+
+    console.log(`Found ${walletLinks.length} wallet links and ${linkedNFTs.length} linked NFTs`);
+
+    // Token IDs repeat across collections, so tokens are keyed by collection and token ID
+    const tokensByWalletLink = new Map<string, string[]>();
+    const walletLinkByToken = new Map<string, string>();
+    for (const nft of linkedNFTs) {
+      if (nft.collectionId === defaultCollection?.id) {
+        tokensByWalletLink.set(nft.walletLinkId, [...(tokensByWalletLink.get(nft.walletLinkId) ?? []), nft.tokenId]);
+      }
+      walletLinkByToken.set(tokenKey(nft.collectionId, nft.tokenId), nft.walletLinkId);
+    }
+    const isLinked = (tokenId: string) => walletLinkByToken.has(tokenKey(defaultCollection?.id, tokenId));
+
+    const mismatches: WalletLinkMismatch[] = [];
+
+    for (const walletLink of walletLinks) {
+      const legacyTokenIds = parseLegacyTokenIds(walletLink.tokenIds);
+      const linkedTokenIds = tokensByWalletLink.get(walletLink.id) ?? [];
+      const legacy = legacyTokenIds ?? [];
+
+      const missingFromJson = linkedTokenIds.filter(id => !legacy.includes(id));
+      const notInRows = legacy.filter(id => !linkedTokenIds.includes(id));
+      const linkedElsewhere = notInRows.filter(isLinked);
+      const orphaned = notInRows.filter(id => !isLinked(id));
+
+      if (legacyTokenIds === null || missingFromJson.length > 0 || notInRows.length > 0) {
+        mismatches.push({
+          walletLinkId: walletLink.id,
+          solanaAddress: walletLink.solanaAddress,
+          evmAddress: walletLink.evmAddress,
+          legacyTokenIds,
+          linkedTokenIds,
+          missingFromJson,
+          linkedElsewhere,
+          orphaned,
+          invalidJson: legacyTokenIds === null,
+        });
+      }
+    }
+
+    const orphanedCount = mismatches.reduce((sum, m) => sum + m.orphaned.length, 0);
+
+    // Keep the legacy values alongside the mismatches so nothing is lost when the column goes
+    const report = {
+      generatedAt: new Date().toISOString(),
+      walletLinks: walletLinks.length,
+      linkedNFTs: linkedNFTs.length,
+      mismatchedWalletLinks: mismatches.length,
+      orphanedTokens: orphanedCount,
+      mismatches,
+      legacyValues: walletLinks.map(({ id, tokenIds }) => ({ walletLinkId: id, tokenIds })),
+    };
+
+    const outputPath = path.join(process.cwd(), 'token-ids-reconciliation.json');
+    fs.writeFileSync(outputPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    console.log(`\n📊 ${mismatches.length} of ${walletLinks.length} wallet links differ from LinkedNFT`);
+    for (const mismatch of mismatches) {
+      console.log(
+        `  ${mismatch.solanaAddress} → ${mismatch.evmAddress}:` +
+        (mismatch.invalidJson ? ' invalid JSON;' : '') +
+        (mismatch.missingFromJson.length ? ` missing from JSON [${mismatch.missingFromJson.join(', ')}];` : '') +
+        (mismatch.linkedElsewhere.length ? ` linked elsewhere [${mismatch.linkedElsewhere.join(', ')}];` : '') +
+        (mismatch.orphaned.length ? ` ⚠️ orphaned [${mismatch.orphaned.join(', ')}]` : '')
+      );
+    }
+    console.log(`📄 Report written to: ${outputPath}`);
+
+    if (!apply) {
+      console.log('\nDry run - re-run with --apply to drop WalletLink.tokenIds');
+      return;
+    }
+
+    if (orphanedCount > 0 && !force) {
+      console.error(`\n❌ ${orphanedCount} token(s) only exist in the legacy JSON - review the report, then re-run with --force`);
+      process.exit(1);
+    }
+
+    await prisma.$executeRaw`ALTER TABLE "WalletLink" DROP COLUMN IF EXISTS "tokenIds"`;
+    console.log('\n✅ Dropped WalletLink.tokenIds - token lists now come from LinkedNFT only');
+
+  } catch (error) {
+    console.error('❌ Error reconciling token IDs:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+reconcileTokenIds();
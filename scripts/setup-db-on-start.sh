@@ -32,6 +32,77 @@ npx prisma generate || {
   echo "⚠️  Prisma generate failed, but continuing..."
 }
 
+# Move single-collection data onto the default collection before the schema push.
+# LinkedNFT, CollectionMint and LinkEvent rows need a collectionId, which db push
+# can't add to non-empty tables. WASSIEVERSE_COLLECTION_ADDRESS seeds the default
+# collection on first start; further collections are added with scripts/upsert-collection.ts
+DEFAULT_COLLECTION_SLUG="${DEFAULT_COLLECTION_SLUG:-wassieverse}"
+echo ""
+echo "🗂️  Preparing collections (default: $DEFAULT_COLLECTION_SLUG)..."
+if [ -z "$WASSIEVERSE_COLLECTION_ADDRESS" ]; then
+  echo "⚠️  WASSIEVERSE_COLLECTION_ADDRESS is not set - the default collection won't be seeded"
+fi
+# Both values end up in the SQL below - only accept a slug (as scripts/upsert-collection.ts)
+# and a base58 address
+if [[ ! "$DEFAULT_COLLECTION_SLUG" =~ ^[a-z0-9][a-z0-9-]{0,47}$ ]]; then
+  echo "❌ DEFAULT_COLLECTION_SLUG must be lowercase letters, digits and dashes"
+  exit 1
+fi
+if [[ -n "$WASSIEVERSE_COLLECTION_ADDRESS" && ! "$WASSIEVERSE_COLLECTION_ADDRESS" =~ ^[1-9A-HJ-NP-Za-km-z]{32,44}$ ]]; then
+  echo "❌ WASSIEVERSE_COLLECTION_ADDRESS is not a base58 Solana address"
+  exit 1
+fi
+npx prisma db execute --stdin <<EOF 2>&1 || echo "⚠️  Collection preparation failed, continuing..."
+CREATE TABLE IF NOT EXISTS "Collection" (
+  "id" TEXT NOT NULL,
+  "slug" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "address" TEXT NOT NULL,
+  "minTokenId" INTEGER NOT NULL DEFAULT 0,
+  "maxTokenId" INTEGER NOT NULL,
+  "imageBaseUrl" TEXT,
+  "opensAt" TIMESTAMP(3),
+  "closesAt" TIMESTAMP(3),
+  "gracePeriodSeconds" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "Collection_pkey" PRIMARY KEY ("id")
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "Collection_slug_key" ON "Collection"("slug");
+CREATE UNIQUE INDEX IF NOT EXISTS "Collection_address_key" ON "Collection"("address");
+
+INSERT INTO "Collection" ("id", "slug", "name", "address", "minTokenId", "maxTokenId", "updatedAt")
+SELECT md5(random()::text), '${DEFAULT_COLLECTION_SLUG}', 'Wassieverse', '${WASSIEVERSE_COLLECTION_ADDRESS}', 0, 2999, CURRENT_TIMESTAMP
+WHERE '${WASSIEVERSE_COLLECTION_ADDRESS}' <> ''
+ON CONFLICT DO NOTHING;
+
+DO \$\$
+DECLARE
+  default_id TEXT := (SELECT "id" FROM "Collection" WHERE "slug" = '${DEFAULT_COLLECTION_SLUG}');
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['LinkedNFT', 'CollectionMint', 'LinkEvent'] LOOP
+    IF to_regclass(format('%I', table_name)) IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS "collectionId" TEXT', table_name);
+      IF default_id IS NOT NULL THEN
+        EXECUTE format('UPDATE %I SET "collectionId" = \$1 WHERE "collectionId" IS NULL', table_name) USING default_id;
+      END IF;
+    END IF;
+  END LOOP;
+END
+\$\$;
+EOF
+
+# Reconcile and drop the legacy WalletLink.tokenIds column before the push removes it
+# unreported. Stop here if that would lose token IDs only the column knows about -
+# review the report and run: npx tsx scripts/reconcile-token-ids.ts --apply --force
+echo ""
+echo "🧾 Reconciling legacy WalletLink.tokenIds..."
+npx tsx scripts/reconcile-token-ids.ts --apply || {
+  echo "❌ Legacy token IDs could not be reconciled - not pushing the schema"
+  exit 1
+}
+
 # Try to push schema (creates tables if they don't exist)
 echo ""
 echo "📤 Pushing database schema (creating tables if they don't exist)..."
@@ -54,23 +125,26 @@ SELECT
   wl."evmAddress",
   COUNT(ln.id)::integer AS "tokenCount",
   wl."verifiedAt",
-  wl."updatedAt"
+  wl."updatedAt",
+  ln."collectionId"
 FROM "WalletLink" wl
 LEFT JOIN "LinkedNFT" ln ON ln."walletLinkId" = wl.id
-GROUP BY wl.id, wl."solanaAddress", wl."evmAddress", wl."verifiedAt", wl."updatedAt";
+GROUP BY wl.id, wl."solanaAddress", wl."evmAddress", wl."verifiedAt", wl."updatedAt", ln."collectionId";
 EOF
   echo "✅ WalletSummary view created/updated"
   
-  # Create the EVMAirdrop view - aggregates WalletSummary by EVM address
+  # Create the EVMAirdrop view - aggregates WalletSummary by EVM address and collection
   echo ""
   echo "📊 Creating EVMAirdrop view..."
   npx prisma db execute --stdin <<'EOF' 2>&1 || echo "⚠️  View creation failed (might already exist), continuing..."
 CREATE OR REPLACE VIEW "EVMAirdrop" AS
 SELECT 
   ws."evmAddress" AS "EVM",
-  SUM(ws."tokenCount")::integer AS "Amount"
+  SUM(ws."tokenCount")::integer AS "Amount",
+  ws."collectionId"
 FROM "WalletSummary" ws
-GROUP BY ws."evmAddress"
+WHERE ws."collectionId" IS NOT NULL
+GROUP BY ws."evmAddress", ws."collectionId"
 ORDER BY "Amount" DESC;
 EOF
   echo "✅ EVMAirdrop view created/updated"
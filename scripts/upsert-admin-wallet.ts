@@ -0,0 +1,92 @@
+import { PrismaClient } from '@prisma/client';
+import { PublicKey } from '@solana/web3.js';
+import { ADMIN_ROLES, isAdminRole } from '@/lib/adminRoles';
+
+/**
+ * Grants, changes or removes admin access for a wallet.
+ *
+ *   npx tsx scripts/upsert-admin-wallet.ts --address=<Solana or EVM address> --name="Alice" --role=owner
+ *   npx tsx scripts/upsert-admin-wallet.ts --address=<address> --remove=true
+ *
+ * Admin wallets sign in through /api/nonce and /api/admin/session. EVM
+ * addresses are stored lowercased. Removing a wallet invalidates its
+ * sessions on their next request.
+ */
+
+const prisma = new PrismaClient();
+
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = arg.match(/^--([a-z-]+)=(.*)$/);
+    if (!match) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    args.set(match[1], match[2]);
+  }
+  return args;
+}
+
+function normalizeAddress(value: string | undefined): string {
+  if (!value) {
+    throw new Error('--address is required');
+  }
+  if (EVM_ADDRESS_PATTERN.test(value)) {
+    return value.toLowerCase();
+  }
+  try {
+    new PublicKey(value);
+  } catch {
+    throw new Error(`--address is not a valid Solana or EVM address: ${value}`);
+  }
+  return value;
+}
+
+async function upsertAdminWallet() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const address = normalizeAddress(args.get('address'));
+
+    if (args.get('remove') === 'true') {
+      const { count } = await prisma.adminWallet.deleteMany({ where: { address } });
+      if (count === 0) {
+        throw new Error(`${address} is not an admin wallet`);
+      }
+      console.log(`✅ Removed admin wallet ${address}`);
+      return;
+    }
+
+    const name = args.get('name')?.trim();
+    const role = args.get('role');
+    if (role !== undefined && !isAdminRole(role)) {
+      throw new Error(`--role must be one of: ${ADMIN_ROLES.join(', ')}`);
+    }
+
+    const existing = await prisma.adminWallet.findUnique({ where: { address } });
+    if (!existing) {
+      if (!name || !role) {
+        throw new Error('A new admin wallet needs --name and --role');
+      }
+      await prisma.adminWallet.create({ data: { address, name, role } });
+      console.log(`✅ Added admin wallet ${address} (${name}, ${role})`);
+      return;
+    }
+
+    const wallet = await prisma.adminWallet.update({
+      where: { address },
+      data: { name: name || undefined, role },
+    });
+    console.log(`✅ Updated admin wallet ${wallet.address} (${wallet.name}, ${wallet.role})`);
+
+  } catch (error) {
+    console.error('❌ Error saving admin wallet:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+upsertAdminWallet();
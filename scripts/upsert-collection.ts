@@ -0,0 +1,149 @@
+import { PrismaClient } from '@prisma/client';
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Creates or updates a collection (campaign) served by this deployment.
+ *
+ *   npx tsx scripts/upsert-collection.ts --slug=nextdrop --name="Next Drop" \
+ *     --address=<collection address> --min=1 --max=5000 \
+ *     [--image-base=https://cdn.example.com/nextdrop] \
+ *     [--opens-at=2026-01-01T00:00:00Z] [--closes-at=2026-02-01T00:00:00Z] [--grace-period=3600]
+ *
+ * The linking window is enforced by verify-solana and link-evm; --grace-period
+ * (seconds) lets link-evm accept links that long after --closes-at.
+ *
+ * Existing collections are matched by slug; only the given fields are updated
+ * (pass an empty value, e.g. --closes-at=, to clear an optional field).
+ * Import the collection's hashlist afterwards with
+ * scripts/import-hashlist.ts --collection=<slug>.
+ */
+
+const prisma = new PrismaClient();
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/;
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = arg.match(/^--([a-z-]+)=(.*)$/);
+    if (!match) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    args.set(match[1], match[2]);
+  }
+  return args;
+}
+
+function parseInteger(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--${flag} must be a non-negative integer`);
+  }
+  return Number(value);
+}
+
+function parseDate(value: string | undefined, flag: string): Date | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === '') {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${flag} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+async function upsertCollection() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    const slug = args.get('slug')?.toLowerCase();
+    if (!slug || !SLUG_PATTERN.test(slug)) {
+      throw new Error('--slug is required (lowercase letters, digits and dashes)');
+    }
+
+    const address = args.get('address');
+    if (address !== undefined) {
+      try {
+        new PublicKey(address);
+      } catch {
+        throw new Error(`--address is not a valid Solana address: ${address}`);
+      }
+    }
+
+    const name = args.get('name');
+    const minTokenId = parseInteger(args.get('min'), 'min');
+    const maxTokenId = parseInteger(args.get('max'), 'max');
+    const imageBaseUrl = args.has('image-base') ? args.get('image-base') || null : undefined;
+    const opensAt = parseDate(args.get('opens-at'), 'opens-at');
+    const closesAt = parseDate(args.get('closes-at'), 'closes-at');
+    const gracePeriodSeconds = parseInteger(args.get('grace-period'), 'grace-period');
+
+    const existing = await prisma.collection.findUnique({ where: { slug } });
+
+    const effectiveMin = minTokenId ?? existing?.minTokenId ?? 0;
+    const effectiveMax = maxTokenId ?? existing?.maxTokenId;
+    if (effectiveMax !== undefined && effectiveMax < effectiveMin) {
+      throw new Error(`--max (${effectiveMax}) is below --min (${effectiveMin})`);
+    }
+
+    const effectiveOpensAt = opensAt === undefined ? existing?.opensAt : opensAt;
+    const effectiveClosesAt = closesAt === undefined ? existing?.closesAt : closesAt;
+    if (effectiveOpensAt && effectiveClosesAt && effectiveClosesAt <= effectiveOpensAt) {
+      throw new Error('--closes-at must be after --opens-at');
+    }
+
+    if (!existing) {
+      if (!name || !address || maxTokenId === undefined) {
+        throw new Error('A new collection needs --name, --address and --max');
+      }
+
+      const collection = await prisma.collection.create({
+        data: {
+          slug,
+          name,
+          address,
+          minTokenId: effectiveMin,
+          maxTokenId,
+          imageBaseUrl: imageBaseUrl ?? null,
+          opensAt: opensAt ?? null,
+          closesAt: closesAt ?? null,
+          gracePeriodSeconds: gracePeriodSeconds ?? 0,
+        },
+      });
+      console.log(`✅ Created collection ${collection.name} (${collection.slug})`);
+      console.log(`\n💡 Next: npx tsx scripts/import-hashlist.ts <hashlist> --collection=${collection.slug}`);
+      return;
+    }
+
+    const collection = await prisma.collection.update({
+      where: { slug },
+      data: { name, address, minTokenId, maxTokenId, imageBaseUrl, opensAt, closesAt, gracePeriodSeconds },
+    });
+    console.log(`✅ Updated collection ${collection.name} (${collection.slug})`);
+
+    // Changing the range doesn't touch existing rows - report what no longer fits
+    const outOfRange = await prisma.collectionMint.findMany({ where: { collectionId: collection.id } })
+      .then(mints => mints.filter(mint => {
+        const tokenId = Number(mint.tokenId);
+        return !Number.isInteger(tokenId) || tokenId < collection.minTokenId || tokenId > collection.maxTokenId;
+      }));
+    if (outOfRange.length > 0) {
+      console.warn(`⚠️ ${outOfRange.length} imported mint(s) are outside ${collection.minTokenId}-${collection.maxTokenId}`);
+    }
+
+  } catch (error) {
+    console.error('❌ Error saving collection:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+upsertCollection();
@@ -0,0 +1,16 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: "node",
+    // The libraries log every verification step - only show logs of failing tests
+    silent: "passed-only",
+    include: ["lib/**/*.test.ts"],
+  },
+});